@@ -0,0 +1,55 @@
+import { Effect } from './Effect'
+import { KeyPath, CasePath, casePath } from './PropertyPath'
+import { DependencyValues } from './DependencyValues'
+import { PrimitiveReducer } from './Reducer'
+
+// Sets the value at `keyPath`, so that form fields don't each need their own action.
+export type BindingAction<State> = {
+    keyPath: KeyPath<State, any>
+    value: any
+}
+
+export type BindableAction<State> = {
+    kind: 'binding'
+    value: BindingAction<State>
+}
+
+export function binding<State, Value>(keyPath: KeyPath<State, Value>, value: Value): BindingAction<State> {
+    return { keyPath, value }
+}
+
+// Whether the action sets the value at `keyPath`. Key paths with keys are matched by key,
+// others by identity.
+export function isBinding<State, Value>(
+    action: BindingAction<State>,
+    keyPath: KeyPath<State, Value>
+): action is { keyPath: KeyPath<State, Value>, value: Value } {
+    if (action.keyPath === keyPath) {
+        return true
+    }
+    return keyPath.key !== undefined && action.keyPath.key === keyPath.key
+}
+
+const bindingCase = casePath<BindableAction<any>, 'binding'>('binding')
+
+export function bindableCase<State, Action>(): CasePath<Action, BindingAction<State>> {
+    return bindingCase as CasePath<any, BindingAction<State>>
+}
+
+// Applies binding actions to the state. Combine it before reducers that react to
+// specific bindings, so that they see the new value.
+export class BindingReducer<State, Action> implements PrimitiveReducer<State, Action> {
+    action: CasePath<Action, BindingAction<State>>
+
+    constructor(action: CasePath<Action, BindingAction<State>> = bindableCase()) {
+        this.action = action
+    }
+
+    _reduce(state: State, action: Action, dependencies: DependencyValues): [State, Effect<Action>] {
+        const bindingAction = this.action.extract(action)
+        if (!bindingAction) {
+            return [state, Effect.none]
+        }
+        return [bindingAction.keyPath.set(state, bindingAction.value), Effect.none]
+    }
+}
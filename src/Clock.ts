@@ -0,0 +1,89 @@
+import { dependencyKey } from './DependencyValues'
+
+// Times are in milliseconds. A sleep rejects with the signal's reason once it is aborted.
+export interface Clock {
+    now(): number
+    sleep(duration: number, signal?: AbortSignal): Promise<void>
+}
+
+export const liveClock: Clock = {
+    now: () => Date.now(),
+    sleep: (duration, signal) => new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason)
+            return
+        }
+        const onAbort = () => {
+            clearTimeout(timer)
+            reject(signal?.reason)
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort)
+            resolve()
+        }, Math.max(0, duration))
+        signal?.addEventListener('abort', onAbort, { once: true })
+    })
+}
+
+// A clock whose time only moves when the test advances it.
+export class TestClock implements Clock {
+    private currentTime: number
+    private sleepers: { deadline: number, resume: () => void }[] = []
+
+    constructor(now: number = 0) {
+        this.currentTime = now
+    }
+
+    now(): number {
+        return this.currentTime
+    }
+
+    sleep(duration: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resume, reject) => {
+            if (signal?.aborted) {
+                reject(signal.reason)
+                return
+            }
+            const onAbort = () => {
+                this.sleepers = this.sleepers.filter(x => x !== sleeper)
+                reject(signal?.reason)
+            }
+            const sleeper = {
+                deadline: this.currentTime + Math.max(0, duration),
+                resume: () => {
+                    signal?.removeEventListener('abort', onAbort)
+                    resume()
+                }
+            }
+            this.sleepers.push(sleeper)
+            signal?.addEventListener('abort', onAbort, { once: true })
+        })
+    }
+
+    // Moves time forward, waking sleepers in deadline order. Effects get to run between
+    // wake-ups, so sleeps they start along the way are honored too.
+    async advance(by: number = 0) {
+        const end = this.currentTime + by
+        while (true) {
+            await flush()
+            this.sleepers.sort((lhs, rhs) => lhs.deadline - rhs.deadline)
+            const next = this.sleepers[0]
+            if (!next || next.deadline > end) {
+                break
+            }
+            this.sleepers.shift()
+            this.currentTime = next.deadline
+            next.resume()
+        }
+        this.currentTime = end
+        await flush()
+    }
+}
+
+function flush(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 0))
+}
+
+export const clock = dependencyKey<Clock>('clock', {
+    liveValue: liveClock
+})
@@ -4,18 +4,80 @@ export type DependencyValuesStorage = {
     [key: symbol]: any
 }
 
+export type DependencyContext = 'live' | 'test' | 'preview'
+
+export interface DependencyKey<Value> {
+    readonly key: symbol
+    readonly name: string
+    liveValue: Value
+    testValue?: Value
+    previewValue?: Value
+}
+
+export function dependencyKey<Value>(
+    name: string,
+    values: { liveValue: Value, testValue?: Value, previewValue?: Value }
+): DependencyKey<Value> {
+    return {
+        key: Symbol(name),
+        name,
+        ...values
+    }
+}
+
 export class DependencyValues {
     storage: DependencyValuesStorage
+    context: DependencyContext
 
-    constructor(storage?: DependencyValuesStorage) {
+    constructor(storage?: DependencyValuesStorage, context: DependencyContext = 'live') {
         if (storage) {
             this.storage = storage
         } else {
             this.storage = {}
         }
+        this.context = context
+    }
+
+    get<Value>(key: DependencyKey<Value>): Value {
+        if (key.key in this.storage) {
+            return this.storage[key.key]
+        }
+        switch (this.context) {
+            case 'live':
+                return key.liveValue
+            case 'test':
+                return key.testValue !== undefined ? key.testValue : unimplemented(key.name)
+            case 'preview':
+                return key.previewValue !== undefined ? key.previewValue : key.liveValue
+        }
+    }
+
+    with<Value>(key: DependencyKey<Value>, value: Value): DependencyValues {
+        return new DependencyValues({ ...this.storage, [key.key]: value }, this.context)
     }
 
     mutating(body: (draft: Draft<DependencyValuesStorage>) => void): DependencyValues {
-        return new DependencyValues(produce(this.storage, body))
+        return new DependencyValues(produce(this.storage, body), this.context)
+    }
+}
+
+// A stand-in for dependencies that a test did not override. Any use of it throws
+// with the name of the key, so the test knows which dependency it has to provide.
+export function unimplemented<Value>(name: string): Value {
+    const fail = (): never => {
+        throw new Error(`Unimplemented: dependency '${name}' was used in a test without being overridden.`)
     }
+    const target = () => {}
+    return new Proxy(target, {
+        get: (_, property) => {
+            // Keep the value from being mistaken for a promise when it is returned from an async function.
+            if (property === 'then') {
+                return undefined
+            }
+            return fail()
+        },
+        set: fail,
+        apply: fail,
+        construct: fail
+    }) as any
 }
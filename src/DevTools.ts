@@ -0,0 +1,184 @@
+import { v4 as uuidv4 } from 'uuid'
+import { RootStore, ActionSource } from './Store'
+
+// A message from the tool. `DISPATCH` messages carry monitor commands like
+// `{ type: 'JUMP_TO_ACTION', actionId }`, `ACTION` messages an action to send to the store.
+export type DevToolsMessage = {
+    type: string
+    payload?: any
+    state?: string
+}
+
+export type DevToolsAction = {
+    type: string
+    payload: unknown
+    source: ActionSource
+}
+
+// A connection to one instance in the tool, like the one `connect` on the browser extension returns.
+export interface DevToolsConnection {
+    init(state: unknown): void
+    send(action: DevToolsAction, state: unknown): void
+    subscribe(listener: (message: DevToolsMessage) => void): (() => void) | void
+}
+
+export type DevToolsTransport = {
+    connect(options: { name: string, maxAge: number }): DevToolsConnection
+}
+
+export type DevToolsOptions<State, Action> = {
+    name?: string
+    // Defaults to the browser extension. Without a transport the store is not connected.
+    transport?: DevToolsTransport
+    // How many past states can be jumped to. The tool is told to keep as many.
+    maxAge?: number
+    describeAction?: (action: Action) => string
+    // Turns actions dispatched from the tool into store actions. Strings are parsed as JSON by default.
+    parseAction?: (payload: unknown) => Action
+    // Restores a state the tool sent back that is no longer in the history. Without it, such
+    // jumps are ignored, since states parsed as JSON lose instances like `StackState` and `Shared`.
+    parseState?: (state: string) => State
+}
+
+// Logs every action of the store with its resulting state, and lets the tool jump to past
+// states and dispatch actions. Returns a function that disconnects the store again.
+export function connectDevTools<State, Action>(store: RootStore<State, Action>, options: DevToolsOptions<State, Action> = {}): () => void {
+    const transport = options.transport ?? extensionTransport()
+    if (!transport) {
+        return () => {}
+    }
+    const maxAge = options.maxAge ?? 50
+    const describeAction = options.describeAction ?? defaultDescribeAction
+    const parseAction = options.parseAction ?? defaultParse
+    const parseState = options.parseState
+
+    const connection = transport.connect({ name: options.name ?? 'Store', maxAge })
+
+    // `RESET` goes back here, even once the history no longer reaches it.
+    const initialState = store.state
+    // states[i] is the state after action firstActionId + i, where action 0 is the initial state.
+    let states: State[] = [store.state]
+    let firstActionId = 0
+    const reset = (state: State) => {
+        states = [state]
+        firstActionId = 0
+        connection.init(state)
+    }
+    reset(store.state)
+
+    const observerId = uuidv4()
+    store.observeActions(observerId, (action, state, source) => {
+        states.push(state)
+        if (states.length > maxAge) {
+            states.shift()
+            firstActionId += 1
+        }
+        const description = describeAction(action)
+        connection.send({
+            type: source === 'effect' ? `[effect] ${description}` : description,
+            payload: action,
+            source
+        }, state)
+    })
+
+    const jump = (message: DevToolsMessage, actionId: number | undefined) => {
+        if (actionId !== undefined && actionId >= firstActionId && actionId - firstActionId < states.length) {
+            store.replaceState(states[actionId - firstActionId])
+        } else if (message.state !== undefined && parseState) {
+            store.replaceState(parseState(message.state))
+        }
+    }
+
+    const unsubscribe = connection.subscribe(message => {
+        switch (message.type) {
+            case 'DISPATCH':
+                switch (message.payload?.type) {
+                    case 'JUMP_TO_STATE':
+                    case 'JUMP_TO_ACTION':
+                        jump(message, message.payload.actionId)
+                        return
+                    case 'RESET':
+                        store.replaceState(initialState)
+                        reset(initialState)
+                        return
+                    case 'COMMIT':
+                        reset(store.state)
+                        return
+                    case 'ROLLBACK':
+                        if (message.state !== undefined && parseState) {
+                            store.replaceState(parseState(message.state))
+                        }
+                        reset(store.state)
+                        return
+                }
+                return
+            case 'ACTION':
+                store.send(parseAction(message.payload))
+                return
+        }
+    })
+
+    return () => {
+        store.unobserveActions(observerId)
+        if (unsubscribe) {
+            unsubscribe()
+        }
+    }
+}
+
+function extensionTransport(): DevToolsTransport | undefined {
+    return (globalThis as any).__REDUX_DEVTOOLS_EXTENSION__
+}
+
+function defaultDescribeAction(action: unknown): string {
+    if (typeof action === 'object' && action !== null && typeof (action as any).kind === 'string') {
+        return (action as any).kind
+    }
+    return String(action)
+}
+
+function defaultParse(payload: unknown): any {
+    return typeof payload === 'string' ? JSON.parse(payload) : payload
+}
+
+// A stand-in for the browser extension that keeps everything in memory.
+export class InMemoryDevTools implements DevToolsTransport {
+    name?: string
+    maxAge?: number
+    initialState: unknown
+    log: { action: DevToolsAction, state: unknown }[] = []
+
+    private listeners: Set<(message: DevToolsMessage) => void> = new Set()
+
+    connect(options: { name: string, maxAge: number }): DevToolsConnection {
+        this.name = options.name
+        this.maxAge = options.maxAge
+        return {
+            init: state => {
+                this.initialState = state
+                this.log = []
+            },
+            send: (action, state) => {
+                this.log.push({ action, state })
+            },
+            subscribe: listener => {
+                this.listeners.add(listener)
+                return () => {
+                    this.listeners.delete(listener)
+                }
+            }
+        }
+    }
+
+    // Sends a message from the tool to the connected store.
+    dispatch(message: DevToolsMessage) {
+        for (const listener of this.listeners) {
+            listener(message)
+        }
+    }
+
+    // Jumps to the state after the nth logged action, where 0 is the initial state.
+    jumpToAction(actionId: number) {
+        this.dispatch({ type: 'DISPATCH', payload: { type: 'JUMP_TO_ACTION', actionId } })
+    }
+}
@@ -1,26 +1,63 @@
 import { immerable, produce } from 'immer'
+import { DependencyValues, dependencyKey } from './DependencyValues'
+import { clock } from './Clock'
+
+export class CancellationError extends Error {
+    constructor() {
+        super('The effect is cancelled')
+        this.name = 'CancellationError'
+    }
+}
 
 export class EffectContext {
-    onCancellation?: () => void
+    dependencies: DependencyValues
+    // The same for every effect resolved from one effect a reducer returned. Effects are
+    // values that can be returned again, so this tells the times they are run apart.
+    readonly resolution: object
+
+    private controller = new AbortController()
 
-    private _isCancelled: boolean = false
+    constructor(dependencies: DependencyValues = new DependencyValues(), resolution: object = {}) {
+        this.dependencies = dependencies
+        this.resolution = resolution
+    }
+
+    // Aborted when the effect is cancelled. Pass it to `fetch` and other abortable APIs.
+    get signal(): AbortSignal {
+        return this.controller.signal
+    }
 
     get isCancelled(): boolean {
-        return this._isCancelled
+        return this.controller.signal.aborted
     }
 
-    cancel() {
-        if (this._isCancelled) {
-            return
+    // Calls `listener` once the effect is cancelled, or right away if it already is.
+    // Returns a function that removes the listener.
+    addCancellationListener(listener: () => void): () => void {
+        if (this.isCancelled) {
+            listener()
+            return () => {}
         }
+        this.signal.addEventListener('abort', listener, { once: true })
+        return () => this.signal.removeEventListener('abort', listener)
+    }
 
-        this._isCancelled = true
-        if (this.onCancellation) {
-            this.onCancellation()
+    throwIfCancelled() {
+        if (this.isCancelled) {
+            throw new CancellationError()
         }
     }
+
+    cancel() {
+        if (this.isCancelled) {
+            return
+        }
+        this.controller.abort(new CancellationError())
+    }
 }
 
+export type Send<Action> = (action: Action) => void
+
 export type EffectNode<Action> = {
     kind: 'cancel-scope'
     scope: string[]
@@ -31,13 +68,17 @@ export type EffectNode<Action> = {
     kind: 'action'
     value: Action
 } | {
-    kind: 'promise',
-    id?: string,
+    kind: 'promise'
     value: (context: EffectContext) => Promise<Action>
 } | {
     kind: 'generator'
-    id?: string
     value: (context: EffectContext) => AsyncGenerator<Action, void, undefined>
+} | {
+    kind: 'run'
+    value: (send: Send<Action>, context: EffectContext) => Promise<void>
+} | {
+    kind: 'concatenate'
+    value: Effect<Action>[]
 }
 
 function mapEffectNode<Action, NewAction>(node: EffectNode<Action>, transform: (action: Action) => NewAction): EffectNode<NewAction> {
@@ -70,6 +111,77 @@ function mapEffectNode<Action, NewAction>(node: EffectNode<Action>, transform: (
                     }
                 }
             }
+        case 'run':
+            return {
+                ...node,
+                value: (send: Send<NewAction>, context: EffectContext) => node.value(action => send(transform(action)), context)
+            }
+        case 'concatenate':
+            return {
+                ...node,
+                value: node.value.map(x => x.map(transform))
+            }
+    }
+}
+
+export type LongRunningEffectNode<Action> = Extract<EffectNode<Action>, { kind: 'promise' | 'generator' | 'run' }>
+
+export async function* startEffectNode<Action>(node: LongRunningEffectNode<Action>, context: EffectContext): AsyncGenerator<Action, void, undefined> {
+    switch (node.kind) {
+        case 'promise':
+            yield await node.value(context)
+            break
+        case 'generator':
+            yield* node.value(context)
+            break
+        case 'run':
+            yield* runEffectOperation(node.value, context)
+            break
+    }
+}
+
+// Bridges the push-based `send` of a run effect to the pull-based stream the store consumes.
+async function* runEffectOperation<Action>(
+    operation: (send: Send<Action>, context: EffectContext) => Promise<void>,
+    context: EffectContext
+): AsyncGenerator<Action, void, undefined> {
+    const buffer: Action[] = []
+    let settled = false
+    let failure: { error: any } | undefined
+    let wake = () => {}
+
+    const send = (action: Action) => {
+        if (context.isCancelled || settled) {
+            return
+        }
+        buffer.push(action)
+        wake()
+    }
+    const removeListener = context.addCancellationListener(() => wake())
+    operation(send, context).then(() => {
+        settled = true
+        wake()
+    }, error => {
+        settled = true
+        failure = { error }
+        wake()
+    })
+
+    while (true) {
+        if (buffer.length > 0) {
+            yield buffer.shift() as Action
+            continue
+        }
+        if (settled || context.isCancelled) {
+            break
+        }
+        await new Promise<void>(resolve => {
+            wake = resolve
+        })
+    }
+    removeListener()
+    if (failure) {
+        throw failure.error
     }
 }
 
@@ -80,6 +192,8 @@ export class Effect<Action> {
     node?: EffectNode<Action>
     children: Effect<Action>[] = []
     scope: string[] = []
+    dependencies?: DependencyValues
+    cancellation?: { id: string, cancelInFlight: boolean }
 
     map<NewAction>(transform: (action: Action) => NewAction): Effect<NewAction> {
         const effect = new Effect<NewAction>()
@@ -87,6 +201,13 @@ export class Effect<Action> {
             effect.node = mapEffectNode(this.node, transform)
         }
         effect.children = this.children.map(x => x.map(transform))
+        effect.scope = this.scope
+        if (this.dependencies) {
+            effect.dependencies = this.dependencies
+        }
+        if (this.cancellation) {
+            effect.cancellation = this.cancellation
+        }
         return effect
     }
 
@@ -96,8 +217,109 @@ export class Effect<Action> {
         })   
     }
 
+    // Effects resolved under this tree see the given dependencies in their context,
+    // unless a nested effect was given its own.
+    withDependencies(dependencies: DependencyValues): Effect<Action> {
+        if (this.isEmpty) {
+            return this
+        }
+        const effect = new Effect<Action>()
+        effect.children = [this]
+        effect.dependencies = dependencies
+        return effect
+    }
+
+    // Makes every long-running effect in this tree cancellable with `Effect.cancelId(id)`.
+    // With `cancelInFlight`, effects already running under the same id are cancelled first.
+    cancellable(id: string, options: { cancelInFlight?: boolean } = {}): Effect<Action> {
+        if (this.isEmpty) {
+            return this
+        }
+        const effect = new Effect<Action>()
+        effect.children = [this]
+        effect.cancellation = { id, cancelInFlight: options.cancelInFlight ?? false }
+        return effect
+    }
+
+    // Delays the effect, and cancels the previous one with the same id if it is still pending or running.
+    debounce(id: string, duration: number): Effect<Action> {
+        if (this.isEmpty) {
+            return this
+        }
+        const delay = Effect.run<Action>(async (_, context) => {
+            await context.dependencies.get(clock).sleep(duration, context.signal)
+        })
+        return Effect.concatenate(delay, this).cancellable(id, { cancelInFlight: true })
+    }
+
+    // Starts at most one effect with the same id per `duration`. An effect arriving too early
+    // is held back until the window ends; with `latest` a newer one replaces it, otherwise
+    // newer ones are dropped. `Effect.cancelId(id)` cancels held back effects too.
+    throttle(id: string, duration: number, latest: boolean = false): Effect<Action> {
+        if (this.isEmpty) {
+            return this
+        }
+        // Effects in the tree that are run together pass or wait for the window together.
+        const decisions = new WeakMap<object, Promise<boolean>>()
+        return gated(this, context => {
+            let decision = decisions.get(context.resolution)
+            if (!decision) {
+                decision = throttleGate(id, duration, latest, context)
+                decisions.set(context.resolution, decision)
+            }
+            return decision
+        }).cancellable(id)
+    }
+
+    // Turns a failure of any long-running effect in this tree into an action.
+    catch(handler: (error: unknown) => Action): Effect<Action> {
+        if (this.isEmpty) {
+            return this
+        }
+        return transformEffectTree(this, node => catchingEffectNode(node, handler))
+    }
+
     static none = new Effect<any>()
 
+    static tryPromise<Action>(operation: (context: EffectContext) => Promise<Action>, onError: (error: unknown) => Action): Effect<Action> {
+        const effect = new Effect<Action>()
+        effect.node = {
+            kind: 'promise',
+            value: operation
+        }
+        return effect.catch(onError)
+    }
+
+    // Emits the clock's time every `interval` until cancelled.
+    static timer(interval: number): Effect<number> {
+        const effect = new Effect<number>()
+        effect.node = {
+            kind: 'generator',
+            value: async function* (context: EffectContext) {
+                const timerClock = context.dependencies.get(clock)
+                let deadline = timerClock.now() + interval
+                while (!context.isCancelled) {
+                    await timerClock.sleep(deadline - timerClock.now(), context.signal)
+                    if (context.isCancelled) {
+                        return
+                    }
+                    yield timerClock.now()
+                    deadline += interval
+                }
+            }
+        }
+        return effect
+    }
+
+    static run<Action>(operation: (send: Send<Action>, context: EffectContext) => Promise<void>): Effect<Action> {
+        const effect = new Effect<Action>()
+        effect.node = {
+            kind: 'run',
+            value: operation
+        }
+        return effect
+    }
+
     static cancelScope(scope: string[]): Effect<any> {
         const effect = new Effect()
         effect.node = {
@@ -116,6 +338,24 @@ export class Effect<Action> {
         return effect
     }
 
+    // Runs the effects one after another. Each one starts after every long-running
+    // effect of the previous one has finished.
+    static concatenate<Action>(...effects: Effect<Action>[]): Effect<Action> {
+        const nonEmptyEffects = effects.filter(x => !x.isEmpty)
+        if (nonEmptyEffects.length == 0) {
+            return Effect.none
+        }
+        if (nonEmptyEffects.length == 1) {
+            return nonEmptyEffects[0]
+        }
+        const effect = new Effect<Action>()
+        effect.node = {
+            kind: 'concatenate',
+            value: nonEmptyEffects
+        }
+        return effect
+    }
+
     static merge<Action>(...effects: Effect<Action>[]): Effect<Action> {
         const nonEmptyEffects = effects.filter(x => !x.isEmpty)
         if (nonEmptyEffects.length == 0) {
@@ -145,6 +385,135 @@ export class Effect<Action> {
     }
 }
 
+// Rebuilds the tree with every node transformed, keeping scopes, dependencies and cancellation ids.
+export function transformEffectTree<Action, NewAction>(effect: Effect<Action>, transformNode: (node: EffectNode<Action>) => EffectNode<NewAction>): Effect<NewAction> {
+    const result = new Effect<NewAction>()
+    if (effect.node) {
+        result.node = transformNode(effect.node)
+    }
+    result.children = effect.children.map(x => transformEffectTree(x, transformNode))
+    result.scope = effect.scope
+    if (effect.dependencies) {
+        result.dependencies = effect.dependencies
+    }
+    if (effect.cancellation) {
+        result.cancellation = effect.cancellation
+    }
+    return result
+}
+
+function catchingEffectNode<Action>(node: EffectNode<Action>, handler: (error: unknown) => Action): EffectNode<Action> {
+    switch (node.kind) {
+        case 'cancel-scope':
+        case 'cancel-id':
+        case 'action':
+            return node
+        case 'concatenate':
+            return {
+                kind: 'concatenate',
+                value: node.value.map(x => x.catch(handler))
+            }
+        default:
+            return {
+                kind: 'generator',
+                value: async function* (context: EffectContext) {
+                    try {
+                        yield* startEffectNode(node, context)
+                    } catch (error) {
+                        if (context.isCancelled) {
+                            throw error
+                        }
+                        yield handler(error)
+                    }
+                }
+            }
+    }
+}
+
+// Holds every effect in the tree back until `gate` resolves, and drops them if it resolves to false.
+// Cancellations in the tree are not held back.
+function gated<Action>(effect: Effect<Action>, gate: (context: EffectContext) => Promise<boolean>): Effect<Action> {
+    return transformEffectTree(effect, node => gatedEffectNode(node, gate))
+}
+
+function gatedEffectNode<Action>(node: EffectNode<Action>, gate: (context: EffectContext) => Promise<boolean>): EffectNode<Action> {
+    switch (node.kind) {
+        case 'cancel-scope':
+        case 'cancel-id':
+            return node
+        case 'concatenate':
+            return {
+                kind: 'concatenate',
+                value: node.value.map(x => gated(x, gate))
+            }
+        case 'action':
+            return {
+                kind: 'generator',
+                value: async function* (context: EffectContext) {
+                    if (await gate(context)) {
+                        yield node.value
+                    }
+                }
+            }
+        default:
+            return {
+                kind: 'generator',
+                value: async function* (context: EffectContext) {
+                    if (await gate(context)) {
+                        yield* startEffectNode(node, context)
+                    }
+                }
+            }
+    }
+}
+
+type ThrottleState = {
+    lastStart?: number
+    pending?: object
+}
+
+// Throttle windows by id. Stores install their own, so that they don't share windows.
+export const throttleStates = dependencyKey<Map<string, ThrottleState>>('throttleStates', {
+    liveValue: new Map()
+})
+
+async function throttleGate(id: string, duration: number, latest: boolean, context: EffectContext): Promise<boolean> {
+    const throttleClock = context.dependencies.get(clock)
+    const states = context.dependencies.get(throttleStates)
+    let state = states.get(id)
+    if (!state) {
+        state = {}
+        states.set(id, state)
+    }
+
+    const now = throttleClock.now()
+    if (state.lastStart === undefined || now - state.lastStart >= duration) {
+        state.lastStart = now
+        return true
+    }
+    if (state.pending && !latest) {
+        return false
+    }
+
+    const token = {}
+    state.pending = token
+    try {
+        await throttleClock.sleep(state.lastStart + duration - now, context.signal)
+    } catch (error) {
+        // A cancelled effect no longer holds the window's pending slot.
+        if (state.pending === token) {
+            state.pending = undefined
+        }
+        throw error
+    }
+    if (state.pending !== token || context.isCancelled) {
+        return false
+    }
+    state.pending = undefined
+    state.lastStart = throttleClock.now()
+    return true
+}
+
 export type ResolvedEffect<Action> = {
     kind: 'cancel-scope'
     scope: string[]
@@ -156,13 +525,19 @@ export type ResolvedEffect<Action> = {
     value: Action
 } | {
     kind: 'long-running'
-    id?: string
+    ids: string[]
     scope: string[]
     context: EffectContext
     start: () => AsyncGenerator<Action, void, undefined>
+} | {
+    kind: 'concatenate'
+    ids: string[]
+    scope: string[]
+    context: EffectContext
+    steps: ResolvedEffect<Action>[][]
 }
 
-function resolveEffectNode<Action>(effectNode: EffectNode<Action>, scope: string[]): ResolvedEffect<Action> {
+function resolveEffectNode<Action>(effectNode: EffectNode<Action>, scope: string[], ids: string[], dependencies: DependencyValues, resolution: object): ResolvedEffect<Action> {
     switch (effectNode.kind) {
         case 'cancel-scope':
             return {
@@ -173,46 +548,69 @@ function resolveEffectNode<Action>(effectNode: EffectNode<Action>, scope: string
             return effectNode
         case 'action':
             return effectNode
+        case 'concatenate': {
+            const context = new EffectContext(dependencies, resolution)
+            const steps = effectNode.value.map(x => resolveEffect(x, scope, dependencies, ids, resolution))
+            // Cancelling the concatenation stops whichever step is running; the store
+            // skips the remaining steps once it sees the context is cancelled.
+            context.addCancellationListener(() => {
+                for (const step of steps) {
+                    for (const x of step) {
+                        if (x.kind === 'long-running' || x.kind === 'concatenate') {
+                            x.context.cancel()
+                        }
+                    }
+                }
+            })
+
+            return {
+                kind: 'concatenate',
+                ids, scope, context, steps
+            }
+        }
         default:
-            const context = new EffectContext()
+            const node = effectNode
+            const context = new EffectContext(dependencies, resolution)
             async function* start(): AsyncGenerator<Action, void, undefined> {
-                if (effectNode.kind == 'promise') {
-                    const result = await effectNode.value(context)
-                    if (!context.isCancelled) {
-                        yield result
-                    }
-                } else if (effectNode.kind == 'generator') {
-                    for await (const result of effectNode.value(context)) {
+                try {
+                    for await (const result of startEffectNode(node, context)) {
                         if (!context.isCancelled) {
                             yield result
                         }
                     }
+                } catch (error) {
+                    // Aborted requests and sleeps reject once the effect is cancelled; that is expected.
+                    if (!context.isCancelled) {
+                        throw error
+                    }
                 }
             }
 
-            const retval: ResolvedEffect<Action> = {
+            return {
                 kind: 'long-running',
-                scope, context, start
-            }
-
-            if (effectNode.id) {
-                retval.id = effectNode.id
+                ids, scope, context, start
             }
-            return retval
     }
 }
 
-export function resolveEffect<Action>(effect: Effect<Action>, scope: string[]): ResolvedEffect<Action>[] {
+export function resolveEffect<Action>(effect: Effect<Action>, scope: string[], dependencies: DependencyValues = new DependencyValues(), ids: string[] = [], resolution: object = {}): ResolvedEffect<Action>[] {
     if (effect.isEmpty) {
         return []
     }
     const list: ResolvedEffect<Action>[] = []
     scope = scope.concat(effect.scope)
+    dependencies = effect.dependencies ?? dependencies
+    if (effect.cancellation) {
+        if (effect.cancellation.cancelInFlight) {
+            list.push({ kind: 'cancel-id', id: effect.cancellation.id })
+        }
+        ids = ids.concat(effect.cancellation.id)
+    }
     if (effect.node) {
-        list.push(resolveEffectNode(effect.node, scope))
+        list.push(resolveEffectNode(effect.node, scope, ids, dependencies, resolution))
     }
     for (const child of effect.children) {
-        list.push(...resolveEffect(child, scope))
+        list.push(...resolveEffect(child, scope, dependencies, ids, resolution))
     }
     return list
 }
@@ -256,6 +654,30 @@ export class EffectContextTree {
         }
     }
 
+    remove(context: EffectContext, scope: string[]) {
+        if (scope.length === 0) {
+            this.contexts = this.contexts.filter(x => x !== context)
+            return
+        }
+        if (!this.children) {
+            return
+        }
+
+        const head = scope[0]
+        const child = this.children.get(head)
+        if (!child) {
+            return
+        }
+        child.remove(context, scope.slice(1))
+        if (child.isEmpty) {
+            this.children.delete(head)
+        }
+    }
+
+    get isEmpty(): boolean {
+        return this.contexts.length === 0 && (!this.children || this.children.size === 0)
+    }
+
     add(context: EffectContext, scope: string[]) {
         if (context.isCancelled) {
             return
@@ -278,4 +700,46 @@ export class EffectContextTree {
         }
         child.add(context, scope.slice(1))
     }
-}
\ No newline at end of file
+}
+
+export class EffectContextRegistry {
+    contexts: Map<string, Set<EffectContext>> = new Map()
+
+    add(context: EffectContext, ids: string[]) {
+        if (context.isCancelled) {
+            return
+        }
+        for (const id of ids) {
+            let contexts = this.contexts.get(id)
+            if (!contexts) {
+                contexts = new Set()
+                this.contexts.set(id, contexts)
+            }
+            contexts.add(context)
+        }
+    }
+
+    remove(context: EffectContext, ids: string[]) {
+        for (const id of ids) {
+            const contexts = this.contexts.get(id)
+            if (!contexts) {
+                continue
+            }
+            contexts.delete(context)
+            if (contexts.size === 0) {
+                this.contexts.delete(id)
+            }
+        }
+    }
+
+    cancel(id: string) {
+        const contexts = this.contexts.get(id)
+        if (!contexts) {
+            return
+        }
+        this.contexts.delete(id)
+        for (const context of contexts) {
+            context.cancel()
+        }
+    }
+}
@@ -0,0 +1,139 @@
+import { Effect } from './Effect'
+import { DependencyValues } from './DependencyValues'
+import { Reducer, PrimitiveReducer, run, childScopes, rehydrate } from './Reducer'
+
+export type HistoryState<State> = {
+    past: State[]
+    present: State
+    future: State[]
+    // Set between `beginGroup` and `endGroup`. Once an action of the group is recorded,
+    // later ones are merged into the same undo step.
+    group?: { recorded: boolean }
+}
+
+export type HistoryAction<Action> = {
+    kind: 'action'
+    value: Action
+} | {
+    kind: 'undo'
+} | {
+    kind: 'redo'
+} | {
+    kind: 'clearHistory'
+} | {
+    kind: 'beginGroup'
+} | {
+    kind: 'endGroup'
+}
+
+export type HistoryOptions<State, Action> = {
+    // How many undo steps are kept.
+    limit?: number
+    // Whether the action makes an undo step. By default every action that changes the state does.
+    shouldRecord?: (action: Action, oldState: State, newState: State) => boolean
+}
+
+export function initialHistory<State>(present: State): HistoryState<State> {
+    return { past: [], present, future: [] }
+}
+
+export function canUndo<State>(state: HistoryState<State>): boolean {
+    return state.past.length > 0
+}
+
+export function canRedo<State>(state: HistoryState<State>): boolean {
+    return state.future.length > 0
+}
+
+// Keeps past and future states of the wrapped reducer. The states are Immer snapshots, so
+// keeping them costs no copies. Undo and redo only swap states; no effects are replayed, and
+// the effects of children that are gone afterwards, like the ones of `ifLet` and `forEach`,
+// are cancelled.
+export function withHistory<State, Action>(
+    reducer: Reducer<State, Action>,
+    options: HistoryOptions<State, Action> = {}
+): Reducer<HistoryState<State>, HistoryAction<Action>> {
+    return new HistoryReducer(reducer, options)
+}
+
+class HistoryReducer<State, Action> implements PrimitiveReducer<HistoryState<State>, HistoryAction<Action>> {
+    wrapped: Reducer<State, Action>
+    limit: number
+    shouldRecord: (action: Action, oldState: State, newState: State) => boolean
+
+    constructor(wrapped: Reducer<State, Action>, options: HistoryOptions<State, Action>) {
+        this.wrapped = wrapped
+        this.limit = options.limit ?? 100
+        this.shouldRecord = options.shouldRecord ?? ((_, oldState, newState) => oldState !== newState)
+    }
+
+    _childScopes(state: HistoryState<State>): string[][] {
+        return childScopes(this.wrapped, state.present)
+    }
+
+    _rehydrate(state: HistoryState<State>): HistoryState<State> {
+        return { ...state, present: rehydrate(this.wrapped, state.present) }
+    }
+
+    _reduce(state: HistoryState<State>, action: HistoryAction<Action>, dependencies: DependencyValues): [HistoryState<State>, Effect<HistoryAction<Action>>] {
+        switch (action.kind) {
+            case 'action':
+                return this.reduceAction(state, action.value, dependencies)
+            case 'undo':
+                if (state.past.length === 0) {
+                    return [state, Effect.none]
+                }
+                return this.moveTo(state, {
+                    ...state,
+                    past: state.past.slice(0, -1),
+                    present: state.past[state.past.length - 1],
+                    future: [state.present, ...state.future]
+                })
+            case 'redo':
+                if (state.future.length === 0) {
+                    return [state, Effect.none]
+                }
+                return this.moveTo(state, {
+                    ...state,
+                    past: [...state.past, state.present],
+                    present: state.future[0],
+                    future: state.future.slice(1)
+                })
+            case 'clearHistory':
+                return [{ ...state, past: [], future: [] }, Effect.none]
+            case 'beginGroup':
+                return [{ ...state, group: { recorded: false } }, Effect.none]
+            case 'endGroup':
+                const { group, ...rest } = state
+                return [rest, Effect.none]
+        }
+    }
+
+    private reduceAction(state: HistoryState<State>, action: Action, dependencies: DependencyValues): [HistoryState<State>, Effect<HistoryAction<Action>>] {
+        const [present, effect] = run(this.wrapped, state.present, action, dependencies)
+        const mapped = effect.map((x): HistoryAction<Action> => ({ kind: 'action', value: x }))
+        if (!this.shouldRecord(action, state.present, present)) {
+            return [{ ...state, present }, mapped]
+        }
+        if (state.group?.recorded) {
+            return [{ ...state, present, future: [] }, mapped]
+        }
+        const past = [...state.past, state.present]
+        if (past.length > this.limit) {
+            past.splice(0, past.length - this.limit)
+        }
+        const newState: HistoryState<State> = { ...state, past, present, future: [] }
+        if (state.group) {
+            newState.group = { recorded: true }
+        }
+        return [newState, mapped]
+    }
+
+    private moveTo(oldState: HistoryState<State>, newState: HistoryState<State>): [HistoryState<State>, Effect<HistoryAction<Action>>] {
+        const remaining = new Set(childScopes(this.wrapped, newState.present).map(x => JSON.stringify(x)))
+        const cancellations = childScopes(this.wrapped, oldState.present)
+            .filter(x => !remaining.has(JSON.stringify(x)))
+            .map(x => Effect.cancelScope(x))
+        return [newState, Effect.merge(...cancellations)]
+    }
+}
@@ -1,18 +1,149 @@
 import { v4 as uuidv4 } from 'uuid'
 import React from 'react'
-import { Store } from './Store'
+import { Store, StoreTask } from './Store'
+import { KeyPath, CasePath } from './PropertyPath'
+import { BindingAction, binding, bindableCase } from './Binding'
 
-export function useStore<State, Action>(store: Store<State, Action>): [State, (action: Action) => void] {
-    const [state, setState] = React.useState(() => store.state)
-    React.useEffect(() => {
-        const id = uuidv4()
-        store.subscribe(id, state => {
-            setState(state)
-        })
+export function useStore<State, Action>(store: Store<State, Action>): [State, (action: Action) => StoreTask] {
+    const state = useSelector(store, identity)
+    return [state, useSend(store)]
+}
 
+// Re-renders only when the selected value changes according to `isEqual`.
+export function useSelector<State, Action, Selected>(
+    store: Store<State, Action>,
+    selector: (state: State) => Selected,
+    isEqual: (lhs: Selected, rhs: Selected) => boolean = Object.is
+): Selected {
+    const subscribe = React.useCallback((onStoreChange: () => void) => {
+        const id = uuidv4()
+        store.subscribe(id, onStoreChange)
         return () => {
             store.unsubscribe(id)
         }
-    }, [])
-    return [state, action => store.send(action)]
+    }, [store])
+
+    // The last rendered selection, so that an equal one keeps its identity across renders
+    // even when the selector is an inline closure.
+    const rendered = React.useRef<{ selected: Selected }>()
+    const [getSnapshot, getServerSnapshot] = React.useMemo(() => {
+        const memoizedSelection = (read: () => State) => {
+            let memoized: { state: State, selected: Selected } | undefined
+            return () => {
+                const state = read()
+                if (memoized && memoized.state === state) {
+                    return memoized.selected
+                }
+                let selected = selector(state)
+                const last = memoized ?? (rendered.current && { state, selected: rendered.current.selected })
+                if (last && isEqual(last.selected, selected)) {
+                    selected = last.selected
+                }
+                memoized = { state, selected }
+                return selected
+            }
+        }
+        // Hydration renders the state the server rendered, so that the markup matches.
+        return [
+            memoizedSelection(() => store.state),
+            memoizedSelection(() => store.serverState ?? store.state)
+        ]
+    }, [store, selector, isEqual])
+
+    const selected = React.useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot)
+    React.useEffect(() => {
+        rendered.current = { selected }
+    })
+    return selected
+}
+
+export function useSend<State, Action>(store: Store<State, Action>): (action: Action) => StoreTask {
+    return React.useCallback((action: Action) => store.send(action), [store])
+}
+
+// The value at `keyPath` and a setter that sends it as a binding action. Without `action`,
+// the store's actions are expected to have a `binding` case.
+export function useBinding<State, Action, Value>(
+    store: Store<State, Action>,
+    keyPath: KeyPath<State, Value>,
+    action: CasePath<Action, BindingAction<State>> = bindableCase()
+): [Value, (value: Value) => StoreTask] {
+    const value = useSelector(store, keyPath.get)
+    const setValue = React.useCallback((value: Value) => {
+        return store.send(action.embed(binding(keyPath, value)))
+    }, [store, keyPath, action])
+    return [value, setValue]
+}
+
+function identity<T>(value: T): T {
+    return value
+}
+
+const StoreContext = React.createContext<Store<any, any> | undefined>(undefined)
+
+export function StoreProvider<State, Action>(props: { store: Store<State, Action>, children?: React.ReactNode }): React.ReactElement {
+    return React.createElement(StoreContext.Provider, { value: props.store }, props.children)
+}
+
+export function useStoreContext<State, Action>(): Store<State, Action> {
+    const store = React.useContext(StoreContext)
+    if (!store) {
+        throw new Error('useStoreContext is called outside of a StoreProvider')
+    }
+    return store
+}
+
+export function IfLetStore<State, Action, ChildState, ChildAction>(props: {
+    store: Store<State, Action>
+    state: KeyPath<State, ChildState | undefined>
+    action: CasePath<Action, ChildAction>
+    id: (state: ChildState) => string
+    children: (store: Store<ChildState, ChildAction>) => React.ReactElement | null
+    fallback?: () => React.ReactElement | null
+}): React.ReactElement | null {
+    const { store, state, action, id } = props
+    // Scoping keeps the child store stable for as long as the child keeps its id.
+    const childStore = useSelector(store, () => store.scopeIfLet(state, action, id))
+    if (childStore) {
+        return props.children(childStore)
+    }
+    return props.fallback ? props.fallback() : null
+}
+
+export type SwitchStoreCase<State, Action> = {
+    state: CasePath<State, any>
+    action: CasePath<Action, any>
+    id: (state: any) => string
+    render: (store: Store<any, any>) => React.ReactElement | null
+}
+
+// Renders the first case whose state is present, with a store scoped to it.
+export function SwitchStore<State, Action>(props: {
+    store: Store<State, Action>
+    cases: SwitchStoreCase<State, Action>[]
+    fallback?: () => React.ReactElement | null
+}): React.ReactElement | null {
+    const { store, cases } = props
+    const match = useSelector(store, () => {
+        for (const x of cases) {
+            const childStore = store.scopeCase(x.state, x.action, x.id)
+            if (childStore) {
+                return { childStore, render: x.render }
+            }
+        }
+        return undefined
+    }, (lhs, rhs) => lhs?.childStore === rhs?.childStore)
+    if (match) {
+        return match.render(match.childStore)
+    }
+    return props.fallback ? props.fallback() : null
+}
+
+export function caseLet<State, Action, ChildState, ChildAction>(
+    state: CasePath<State, ChildState>,
+    action: CasePath<Action, ChildAction>,
+    id: (state: ChildState) => string,
+    render: (store: Store<ChildState, ChildAction>) => React.ReactElement | null
+): SwitchStoreCase<State, Action> {
+    return { state, action, id, render }
 }
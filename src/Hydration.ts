@@ -0,0 +1,219 @@
+import { RootStore } from './Store'
+import { Reducer } from './Reducer'
+import { DependencyValues } from './DependencyValues'
+import { IdentifiedArray, IdentifierOf } from './IdentifiedArray'
+import { StackState } from './StackState'
+import { KeyPath, keyPath } from './PropertyPath'
+import { Shared } from './Shared'
+
+// Turns values that JSON can't represent into JSON and back. Encoded values are tagged with
+// the serializer's name, so names have to be unique among the serializers in use.
+export type Serializer<T> = {
+    name: string
+    matches: (value: unknown) => value is T
+    // `encode` and `decode` handle the values nested inside.
+    serialize: (value: T, encode: (value: unknown) => unknown) => unknown
+    deserialize: (data: any, decode: (data: unknown) => unknown) => T
+}
+
+export const dateSerializer: Serializer<Date> = {
+    name: 'Date',
+    matches: (value): value is Date => value instanceof Date,
+    serialize: value => value.toISOString(),
+    deserialize: data => new Date(data)
+}
+
+export const stackStateSerializer: Serializer<StackState<unknown>> = {
+    name: 'StackState',
+    matches: (value): value is StackState<unknown> => value instanceof StackState,
+    serialize: (value, encode) => ({
+        ids: value.ids,
+        storage: encode(value.storage),
+        nextId: value.nextId
+    }),
+    deserialize: (data, decode) => {
+        const stack = new StackState<unknown>()
+        stack.ids = data.ids
+        stack.storage = decode(data.storage) as { [id: string]: unknown }
+        stack.nextId = data.nextId
+        return stack
+    }
+}
+
+// Key paths made with `keyPath`, like the ones in binding actions. They're rebuilt from their
+// keys, which list the properties along the path.
+export const keyPathSerializer: Serializer<KeyPath<any, any>> = {
+    name: 'KeyPath',
+    matches: (value): value is KeyPath<any, any> => {
+        const path = value as Partial<KeyPath<any, any>>
+        return typeof path.get === 'function' && typeof path.set === 'function' && typeof path.key === 'string' && isPropertyList(path.key)
+    },
+    serialize: value => JSON.parse(value.key as string),
+    deserialize: data => (keyPath as (...path: (string | number)[]) => KeyPath<any, any>)(...data)
+}
+
+function isPropertyList(key: string): boolean {
+    try {
+        const parsed = JSON.parse(key)
+        return Array.isArray(parsed) && parsed.every(x => typeof x === 'string' || typeof x === 'number')
+    } catch {
+        return false
+    }
+}
+
+// Identified arrays keep their id function, which can't be serialized, so each one needs a
+// serializer of its own that is given the same function on both sides.
+export function identifiedArraySerializer<ID extends string | number, Element>(
+    name: string,
+    id: IdentifierOf<Element, ID>
+): Serializer<IdentifiedArray<ID, Element>> {
+    return {
+        name,
+        matches: (value): value is IdentifiedArray<ID, Element> => value instanceof IdentifiedArray && value.id === id,
+        serialize: (value, encode) => encode(value.elements),
+        deserialize: (data, decode) => new IdentifiedArray(id, decode(data) as Element[])
+    }
+}
+
+// Shared values are encoded under the names they're given here, which the server and the
+// client give the same values, like `{ currentUser }`. Decoding sets the client's shared value
+// to the server's. Each side passes its own handles, so no value is shared between requests.
+export function sharedSerializer(names: { [name: string]: Shared<any> }): Serializer<Shared<any>> {
+    return {
+        name: 'Shared',
+        matches: (value): value is Shared<any> => value instanceof Shared,
+        serialize: (value, encode) => {
+            const name = Object.keys(names).find(x => names[x].box === value.box)
+            if (name === undefined) {
+                throw new Error('No name for a shared value in the state')
+            }
+            return { name, value: encode(value.value) }
+        },
+        deserialize: (data, decode) => {
+            const shared = names[data.name]
+            if (!shared) {
+                throw new Error(`No shared value named ${data.name}`)
+            }
+            shared.box.set(decode(data.value))
+            return new Shared(shared.box)
+        }
+    }
+}
+
+// States holding shared values need `sharedSerializer` on top of these.
+export const defaultSerializers: Serializer<any>[] = [dateSerializer, stackStateSerializer, keyPathSerializer]
+
+const typeTag = '$type'
+
+export function encodeState(state: unknown, serializers: Serializer<any>[] = defaultSerializers): unknown {
+    const encode = (value: unknown): unknown => {
+        if (typeof value === 'function') {
+            throw new Error(`Can't encode the function ${value.name || '(anonymous)'}`)
+        }
+        if (typeof value !== 'object' || value === null) {
+            return value
+        }
+        for (const serializer of serializers) {
+            if (serializer.matches(value)) {
+                return { [typeTag]: serializer.name, value: serializer.serialize(value, encode) }
+            }
+        }
+        if (Array.isArray(value)) {
+            return value.map(encode)
+        }
+        const prototype = Object.getPrototypeOf(value)
+        if (prototype !== Object.prototype && prototype !== null) {
+            throw new Error(`No serializer for ${prototype.constructor?.name ?? 'an object'}`)
+        }
+        const fields: { [key: string]: unknown } = {}
+        for (const [key, field] of Object.entries(value)) {
+            fields[key] = encode(field)
+        }
+        // Objects that happen to have a type tag of their own are tagged as plain objects.
+        return typeTag in fields ? { [typeTag]: 'Object', value: fields } : fields
+    }
+    return encode(state)
+}
+
+export function decodeState(data: unknown, serializers: Serializer<any>[] = defaultSerializers): unknown {
+    const byName = new Map(serializers.map(x => [x.name, x]))
+    const decode = (data: unknown): unknown => {
+        if (typeof data !== 'object' || data === null) {
+            return data
+        }
+        if (Array.isArray(data)) {
+            return data.map(decode)
+        }
+        const fields = data as { [key: string]: unknown }
+        if (typeTag in fields) {
+            const name = fields[typeTag] as string
+            if (name === 'Object') {
+                return decodeFields(fields.value as { [key: string]: unknown })
+            }
+            const serializer = byName.get(name)
+            if (!serializer) {
+                throw new Error(`No serializer named ${name}`)
+            }
+            return serializer.deserialize(fields.value, decode)
+        }
+        return decodeFields(fields)
+    }
+    const decodeFields = (fields: { [key: string]: unknown }) => {
+        const decoded: { [key: string]: unknown } = {}
+        for (const [key, field] of Object.entries(fields)) {
+            decoded[key] = decode(field)
+        }
+        return decoded
+    }
+    return decode(data)
+}
+
+// On the server: sends the actions that load the page and waits for all their effects.
+// Dispose of the store once the page is rendered and serialized, or use `renderStore`.
+export async function preloadStore<State, Action>(store: RootStore<State, Action>, actions: Action[]): Promise<void> {
+    for (const action of actions) {
+        store.send(action)
+    }
+    await store.finishAll()
+}
+
+// The store's state as a string that can be embedded in the HTML. Escapes `<`, so that the
+// string can't close the script tag it is put in.
+export function serializeStore<State, Action>(store: RootStore<State, Action>, serializers: Serializer<any>[] = defaultSerializers): string {
+    return JSON.stringify(encodeState(store.state, serializers)).replace(/</g, '\\u003c')
+}
+
+// On the server: preloads a store made for one request, renders the page and serializes the
+// store's state, then disposes of the store, so that the shared values in it don't keep it around.
+export async function renderStore<State, Action, Page>(
+    store: RootStore<State, Action>,
+    actions: Action[],
+    render: (store: RootStore<State, Action>) => Page,
+    serializers: Serializer<any>[] = defaultSerializers
+): Promise<{ page: Page, serialized: string }> {
+    try {
+        await preloadStore(store, actions)
+        return { page: render(store), serialized: serializeStore(store, serializers) }
+    } finally {
+        store.dispose()
+    }
+}
+
+export type HydrationOptions = {
+    serializers?: Serializer<any>[]
+    dependencies?: DependencyValues
+}
+
+// On the client: a store that starts where the server left off. The effects that ran on
+// the server are not run again. Until the first render is hydrated, hooks render the
+// server's state.
+export function hydrateStore<State, Action>(
+    serialized: string,
+    reducer: Reducer<State, Action>,
+    options: HydrationOptions = {}
+): RootStore<State, Action> {
+    const state = decodeState(JSON.parse(serialized), options.serializers) as State
+    const store = new RootStore(state, reducer, options.dependencies)
+    store.serverState = state
+    return store
+}
@@ -0,0 +1,131 @@
+import { immerable } from 'immer'
+
+export type IdentifierOf<Element, ID> = (element: Element) => ID
+
+// An ordered collection whose elements can be looked up by id in constant time.
+// Mutating methods are meant to be called on Immer drafts, the same as plain arrays.
+export class IdentifiedArray<ID extends string | number, Element> {
+    [immerable] = true
+
+    readonly id: IdentifierOf<Element, ID>
+    ids: ID[] = []
+    storage: { [id: string]: Element } = {}
+
+    constructor(id: IdentifierOf<Element, ID>, elements: Element[] = []) {
+        this.id = id
+        for (const element of elements) {
+            this.append(element)
+        }
+    }
+
+    get length(): number {
+        return this.ids.length
+    }
+
+    get elements(): Element[] {
+        return this.ids.map(id => this.storage[id])
+    }
+
+    has(id: ID): boolean {
+        return Object.prototype.hasOwnProperty.call(this.storage, id)
+    }
+
+    get(id: ID): Element | undefined {
+        if (!this.has(id)) {
+            return undefined
+        }
+        return this.storage[id]
+    }
+
+    at(index: number): Element | undefined {
+        const id = this.ids[index]
+        if (id === undefined) {
+            return undefined
+        }
+        return this.storage[id]
+    }
+
+    indexOf(id: ID): number {
+        if (!this.has(id)) {
+            return -1
+        }
+        return this.ids.indexOf(id)
+    }
+
+    // Replaces the element with the given id, appends it if the id is new, or removes it
+    // if the element is undefined.
+    set(id: ID, element: Element | undefined) {
+        if (element === undefined) {
+            this.remove(id)
+            return
+        }
+        if (this.id(element) !== id) {
+            throw new Error(`Element id ${this.id(element)} does not match ${id}`)
+        }
+        if (!this.has(id)) {
+            this.ids.push(id)
+        }
+        this.storage[id] = element
+    }
+
+    append(element: Element): boolean {
+        return this.insert(element, this.ids.length)
+    }
+
+    insert(element: Element, index: number): boolean {
+        const id = this.id(element)
+        if (this.has(id)) {
+            return false
+        }
+        this.ids.splice(index, 0, id)
+        this.storage[id] = element
+        return true
+    }
+
+    remove(id: ID): Element | undefined {
+        if (!this.has(id)) {
+            return undefined
+        }
+        const element = this.storage[id]
+        this.ids.splice(this.ids.indexOf(id), 1)
+        delete this.storage[id]
+        return element
+    }
+
+    removeAt(index: number): Element | undefined {
+        const id = this.ids[index]
+        if (id === undefined) {
+            return undefined
+        }
+        return this.remove(id)
+    }
+
+    move(fromIndex: number, toIndex: number) {
+        const [id] = this.ids.splice(fromIndex, 1)
+        if (id === undefined) {
+            return
+        }
+        this.ids.splice(toIndex, 0, id)
+    }
+
+    equals(other: IdentifiedArray<ID, Element>, isEqual: (lhs: Element, rhs: Element) => boolean = Object.is): boolean {
+        if (this.ids.length !== other.ids.length) {
+            return false
+        }
+        for (let i = 0; i < this.ids.length; i++) {
+            const id = this.ids[i]
+            if (id !== other.ids[i] || !isEqual(this.storage[id], other.storage[id])) {
+                return false
+            }
+        }
+        return true
+    }
+
+    toJSON(): Element[] {
+        return this.elements
+    }
+
+    [Symbol.iterator](): Iterator<Element> {
+        return this.elements[Symbol.iterator]()
+    }
+}
@@ -0,0 +1,244 @@
+import { Effect } from './Effect'
+import { DependencyValues } from './DependencyValues'
+import { KeyPath } from './PropertyPath'
+import { Reducer, PrimitiveReducer, run, childScopes, rehydrate } from './Reducer'
+import { Clock, liveClock } from './Clock'
+
+// MARK: Storage
+
+// Where persisted values are kept. The Web Storage API (`localStorage`, `sessionStorage`)
+// already has this shape.
+export interface PersistenceStorage {
+    getItem(key: string): string | null
+    setItem(key: string, value: string): void
+    removeItem(key: string): void
+}
+
+export class MemoryStorage implements PersistenceStorage {
+    items: Map<string, string> = new Map()
+
+    getItem(key: string): string | null {
+        return this.items.get(key) ?? null
+    }
+
+    setItem(key: string, value: string) {
+        this.items.set(key, value)
+    }
+
+    removeItem(key: string) {
+        this.items.delete(key)
+    }
+}
+
+// Falls back to memory where there is no `localStorage`, e.g. during server rendering.
+export function webStorage(storage: PersistenceStorage | undefined = (globalThis as any).localStorage): PersistenceStorage {
+    return storage ?? new MemoryStorage()
+}
+
+// The parts of Node's `fs` module that `FileStorage` uses, so that `require('fs')` can be passed in.
+export interface FileSystem {
+    existsSync(path: string): boolean
+    readFileSync(path: string, encoding: 'utf8'): string
+    writeFileSync(path: string, data: string): void
+    unlinkSync(path: string): void
+    mkdirSync(path: string, options: { recursive: true }): unknown
+}
+
+// Keeps each key in its own JSON file in `directory`.
+export class FileStorage implements PersistenceStorage {
+    fs: FileSystem
+    directory: string
+
+    constructor(fs: FileSystem, directory: string) {
+        this.fs = fs
+        this.directory = directory
+    }
+
+    getItem(key: string): string | null {
+        const path = this.path(key)
+        if (!this.fs.existsSync(path)) {
+            return null
+        }
+        return this.fs.readFileSync(path, 'utf8')
+    }
+
+    setItem(key: string, value: string) {
+        this.fs.mkdirSync(this.directory, { recursive: true })
+        this.fs.writeFileSync(this.path(key), value)
+    }
+
+    removeItem(key: string) {
+        const path = this.path(key)
+        if (this.fs.existsSync(path)) {
+            this.fs.unlinkSync(path)
+        }
+    }
+
+    private path(key: string): string {
+        return `${this.directory}/${encodeURIComponent(key)}.json`
+    }
+}
+
+// MARK: Persistence
+
+export type PersistenceOptions<Value> = {
+    key: string
+    storage: PersistenceStorage
+    version?: number
+    // Migrations by the version they migrate from, each to the next version.
+    migrate?: { [fromVersion: number]: (value: any) => any }
+    // Stored values that fail validation are ignored, and the state keeps its initial value.
+    validate?: (value: unknown) => value is Value
+    // The minimum time between two writes, in milliseconds.
+    throttle?: number
+    // Times the throttled writes. It is not the `clock` dependency, so that tests of features
+    // with persisted state don't have to override it.
+    clock?: Clock
+    onError?: (error: unknown) => void
+}
+
+type StoredValue = {
+    version: number
+    value: unknown
+}
+
+// A slice of the state that is written to storage whenever it changes. Persist the slice with
+// `ChainReducer.persisted`, and a `RootStore` running the reducer rehydrates it when created.
+export class Persistence<State, Value> {
+    keyPath: KeyPath<State, Value>
+    key: string
+    storage: PersistenceStorage
+    version: number
+    migrate: { [fromVersion: number]: (value: any) => any }
+    validate?: (value: unknown) => value is Value
+    throttle: number
+    clock: Clock
+    onError: (error: unknown) => void
+
+    private lastWrite?: number
+    private pending?: { value: Value }
+
+    constructor(keyPath: KeyPath<State, Value>, options: PersistenceOptions<Value>) {
+        this.keyPath = keyPath
+        this.key = options.key
+        this.storage = options.storage
+        this.version = options.version ?? 0
+        this.migrate = options.migrate ?? {}
+        this.validate = options.validate
+        this.throttle = options.throttle ?? 500
+        this.clock = options.clock ?? liveClock
+        this.onError = options.onError ?? (error => {
+            console.warn(`Failed to restore or save persisted state for ${options.key}`, error)
+        })
+    }
+
+    // Replaces the slice with the stored value, if there is a valid one.
+    rehydrate(state: State): State {
+        try {
+            const value = this.read()
+            if (value === undefined) {
+                return state
+            }
+            return this.keyPath.set(state, value)
+        } catch (error) {
+            this.onError(error)
+            return state
+        }
+    }
+
+    // Writes the value, unless the last write was less than `throttle` ago. Then only the
+    // latest value saved in the meantime is written once the window ends.
+    save(value: Value) {
+        if (this.pending) {
+            this.pending.value = value
+            return
+        }
+        const now = this.clock.now()
+        if (this.lastWrite === undefined || now - this.lastWrite >= this.throttle) {
+            this.lastWrite = now
+            this.write(value)
+            return
+        }
+        const pending = { value }
+        this.pending = pending
+        this.clock.sleep(this.lastWrite + this.throttle - now).then(() => {
+            this.pending = undefined
+            this.lastWrite = this.clock.now()
+            this.write(pending.value)
+        }).catch(this.onError)
+    }
+
+    write(value: Value) {
+        const stored: StoredValue = { version: this.version, value }
+        this.storage.setItem(this.key, JSON.stringify(stored))
+    }
+
+    clear() {
+        this.storage.removeItem(this.key)
+    }
+
+    reducer<Action>(wrapped: Reducer<State, Action>): Reducer<State, Action> {
+        return new PersistingReducer(wrapped, this)
+    }
+
+    private read(): Value | undefined {
+        const text = this.storage.getItem(this.key)
+        if (text === null) {
+            return undefined
+        }
+        const stored = JSON.parse(text) as StoredValue
+        if (typeof stored !== 'object' || stored === null || typeof stored.version !== 'number') {
+            throw new Error('The stored value has no version')
+        }
+        if (stored.version > this.version) {
+            throw new Error(`The stored value has version ${stored.version}, newer than ${this.version}`)
+        }
+        let value = stored.value
+        for (let version = stored.version; version < this.version; version++) {
+            const migration = this.migrate[version]
+            if (!migration) {
+                throw new Error(`No migration from version ${version}`)
+            }
+            value = migration(value)
+        }
+        if (this.validate && !this.validate(value)) {
+            throw new Error('The stored value failed validation')
+        }
+        return value as Value
+    }
+}
+
+export function persisted<State, Value>(keyPath: KeyPath<State, Value>, options: PersistenceOptions<Value>): Persistence<State, Value> {
+    return new Persistence(keyPath, options)
+}
+
+class PersistingReducer<State, Action, Value> implements PrimitiveReducer<State, Action> {
+    wrapped: Reducer<State, Action>
+    persistence: Persistence<State, Value>
+
+    constructor(wrapped: Reducer<State, Action>, persistence: Persistence<State, Value>) {
+        this.wrapped = wrapped
+        this.persistence = persistence
+    }
+
+    _childScopes(state: State): string[][] {
+        return childScopes(this.wrapped, state)
+    }
+
+    _rehydrate(state: State): State {
+        return this.persistence.rehydrate(rehydrate(this.wrapped, state))
+    }
+
+    _reduce(state: State, action: Action, dependencies: DependencyValues): [State, Effect<Action>] {
+        const oldValue = this.persistence.keyPath.get(state)
+        const [newState, effect] = run(this.wrapped, state, action, dependencies)
+        const newValue = this.persistence.keyPath.get(newState)
+        if (oldValue === newValue) {
+            return [newState, effect]
+        }
+        const save = Effect.run<Action>(async () => {
+            this.persistence.save(newValue)
+        })
+        return [newState, Effect.merge(effect, save)]
+    }
+}
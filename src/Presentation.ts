@@ -0,0 +1,81 @@
+import { Effect, EffectContext, EffectNode, startEffectNode, transformEffectTree } from './Effect'
+import { dependencyKey } from './DependencyValues'
+
+export type PresentationState<Child> = Child | undefined
+
+export type PresentationAction<ChildAction> = {
+    kind: 'presented'
+    value: ChildAction
+} | {
+    kind: 'dismiss'
+}
+
+export type DismissEffect = () => void
+
+function dismissOutsidePresentation() {
+    console.warn('dismiss is called from a feature that is not presented...')
+}
+
+export const dismiss = dependencyKey<DismissEffect>('dismiss', {
+    liveValue: dismissOutsidePresentation,
+    testValue: dismissOutsidePresentation
+})
+
+// Wraps the effects of a presented child so that calling the `dismiss` dependency
+// from any of them sends a dismiss action to the parent.
+export function presentedEffect<ChildAction>(effect: Effect<ChildAction>): Effect<PresentationAction<ChildAction>> {
+    return transformEffectTree(effect, presentedEffectNode)
+}
+
+function presentedEffectNode<ChildAction>(node: EffectNode<ChildAction>): EffectNode<PresentationAction<ChildAction>> {
+    switch (node.kind) {
+        case 'cancel-scope':
+        case 'cancel-id':
+            return node
+        case 'action':
+            return {
+                kind: 'action',
+                value: { kind: 'presented', value: node.value }
+            }
+        case 'concatenate':
+            return {
+                ...node,
+                value: node.value.map(presentedEffect)
+            }
+        case 'promise':
+        case 'generator':
+        case 'run':
+            return {
+                kind: 'generator',
+                value: async function* (context: EffectContext) {
+                    // Wakes up whichever output is awaited, so that no waits pile up on dismissal.
+                    let isDismissed = false
+                    let wake = () => {}
+                    context.dependencies = context.dependencies.with(dismiss, () => {
+                        isDismissed = true
+                        wake()
+                    })
+
+                    const outputs = startEffectNode(node, context)
+                    while (true) {
+                        const output = outputs.next()
+                        const next = await new Promise<IteratorResult<ChildAction, void> | 'dismiss'>((resolve, reject) => {
+                            wake = () => resolve('dismiss')
+                            if (isDismissed) {
+                                wake()
+                            }
+                            output.then(resolve, reject)
+                        })
+                        if (next === 'dismiss') {
+                            yield { kind: 'dismiss' }
+                            return
+                        }
+                        if (next.done) {
+                            return
+                        }
+                        yield { kind: 'presented', value: next.value }
+                    }
+                }
+            }
+    }
+}
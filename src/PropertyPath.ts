@@ -1,10 +1,13 @@
 import { produce } from 'immer'
+import { IdentifiedArray } from './IdentifiedArray'
 
 // MARK: Key Path
 
 export type KeyPath<Root, Value> = {
     get: (root: Root) => Value
     set: (root: Root, value: Value) => Root
+    // Identifies paths that address the same value, even if they are different objects.
+    key?: string
 }
 
 export function keyPath<
@@ -47,6 +50,7 @@ export function keyPath<
     P extends [...(string | number)[]]
 >(...path: P): KeyPath<Root, any> {
     return {
+        key: JSON.stringify(path),
         get: (root: any): any => path.reduce((acc, key) => acc && acc[key], root),
         set: (root: any, value: any): any => {
             return produce(root, (draft: any) => {
@@ -64,6 +68,27 @@ export function keyPath<
     }
 }
 
+// Addresses the element with the given id, which stays stable when elements are
+// inserted, removed or moved around it. Setting undefined removes the element.
+export function elementKeyPath<Root, ID extends string | number, Element>(
+    collection: KeyPath<Root, IdentifiedArray<ID, Element>>,
+    id: ID
+): KeyPath<Root, Element | undefined> {
+    const retval: KeyPath<Root, Element | undefined> = {
+        get: (root: Root): Element | undefined => collection.get(root).get(id),
+        set: (root: Root, value: Element | undefined): Root => {
+            const newCollection = produce(collection.get(root), draft => {
+                draft.set(id, value as any)
+            })
+            return collection.set(root, newCollection)
+        }
+    }
+    if (collection.key !== undefined) {
+        retval.key = `${collection.key}[${JSON.stringify(id)}]`
+    }
+    return retval
+}
+
 // MARK: Case Path
 
 export type WithKindValue<K extends string, V> = {
@@ -76,12 +101,15 @@ export type AnyKindValue = WithKindValue<any, any>
 export type CasePath<Root, Value> = {
     extract: (root: Root) => Value | null
     embed: (value: Value) => Root
+    // Identifies paths that address the same case, even if they are different objects.
+    key?: string
 }
 
 export function casePath<Root extends AnyKindValue, K extends Root['kind']>(
     kind: K
 ): CasePath<Root, Extract<Root, { kind: K }>['value']> {
     return {
+        key: kind,
         extract: (root: Root): Extract<Root, { kind: K }>['value'] | null => {
             if (root.kind === kind) {
                 return root.value as any
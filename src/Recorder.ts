@@ -0,0 +1,100 @@
+import { v4 as uuidv4 } from 'uuid'
+import { RootStore, ActionSource } from './Store'
+import { Reducer, run } from './Reducer'
+import { DependencyValues } from './DependencyValues'
+import { Serializer, defaultSerializers, encodeState, decodeState } from './Hydration'
+
+// Every action that reached a store, in order, with the state it resulted in. Exported and
+// parsed with the serializers used for hydration, so states and actions need the same ones.
+export type ActionLog<State, Action> = {
+    initialState: State
+    entries: ActionLogEntry<State, Action>[]
+}
+
+export type ActionLogEntry<State, Action> = {
+    action: Action
+    source: ActionSource
+    state: State
+}
+
+export class ActionRecorder<State, Action> {
+    log: ActionLog<State, Action>
+
+    private store: RootStore<State, Action>
+    private observerId = uuidv4()
+
+    constructor(store: RootStore<State, Action>) {
+        this.store = store
+        this.log = { initialState: store.state, entries: [] }
+        store.observeActions(this.observerId, (action, state, source) => {
+            this.log.entries.push({ action, source, state })
+        })
+    }
+
+    stop() {
+        this.store.unobserveActions(this.observerId)
+    }
+
+    export(serializers: Serializer<any>[] = defaultSerializers): string {
+        return JSON.stringify(encodeState(this.log, serializers))
+    }
+}
+
+// Records actions sent to the store from now on, including the ones its effects send.
+export function recordActions<State, Action>(store: RootStore<State, Action>): ActionRecorder<State, Action> {
+    return new ActionRecorder(store)
+}
+
+export function parseActionLog<State, Action>(text: string, serializers: Serializer<any>[] = defaultSerializers): ActionLog<State, Action> {
+    const log = decodeState(JSON.parse(text), serializers) as any
+    if (typeof log !== 'object' || log === null || !('initialState' in log) || !Array.isArray(log.entries)) {
+        throw new Error('Not an action log')
+    }
+    return log
+}
+
+export type ReplayResult<State, Action> = {
+    kind: 'matched'
+    state: State
+} | {
+    kind: 'diverged'
+    // The position in the log of the first action whose state differs from the recorded one,
+    // or that the reducer threw on. Then `actual` is the state the action was sent in.
+    index: number
+    action: Action
+    expected: State
+    actual: State
+    error?: unknown
+}
+
+export type ReplayOptions<State> = {
+    // Defaults to test dependencies, so reducers that reach for live ones fail loudly.
+    dependencies?: DependencyValues
+    // Defaults to comparing the states as JSON, since that's how logs are exported.
+    isEqual?: (expected: State, actual: State) => boolean
+}
+
+// Feeds the logged actions through the reducer without running any effects. The actions that
+// effects sent are in the log already, so the states should match the recorded ones.
+export function replayActionLog<State, Action>(
+    reducer: Reducer<State, Action>,
+    log: ActionLog<State, Action>,
+    options: ReplayOptions<State> = {}
+): ReplayResult<State, Action> {
+    const dependencies = options.dependencies ?? new DependencyValues({}, 'test')
+    const isEqual = options.isEqual ?? ((expected, actual) => JSON.stringify(expected) === JSON.stringify(actual))
+
+    let state = log.initialState
+    for (let i = 0; i < log.entries.length; i++) {
+        const entry = log.entries[i]
+        try {
+            state = run(reducer, state, entry.action, dependencies)[0]
+        } catch (error) {
+            return { kind: 'diverged', index: i, action: entry.action, expected: entry.state, actual: state, error }
+        }
+        if (!isEqual(entry.state, state)) {
+            return { kind: 'diverged', index: i, action: entry.action, expected: entry.state, actual: state }
+        }
+    }
+    return { kind: 'matched', state }
+}
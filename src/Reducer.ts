@@ -1,7 +1,12 @@
 import { Draft, produce } from 'immer'
+import { v4 as uuidv4 } from 'uuid'
 import { Effect } from './Effect'
 import { KeyPath, CasePath, isKeyPath } from './PropertyPath'
-import { DependencyValuesStorage, DependencyValues } from './DependencyValues'
+import { DependencyKey, DependencyValues } from './DependencyValues'
+import { IdentifiedArray } from './IdentifiedArray'
+import { StackState, StackAction } from './StackState'
+import { PresentationState, PresentationAction, presentedEffect } from './Presentation'
+import { Persistence } from './Persistence'
 
 export type Reducer<State, Action> = ComposedReducer<State, Action> | BasicReducer<State, Action> | PrimitiveReducer<State, Action>
 
@@ -15,6 +20,12 @@ export interface BasicReducer<State, Action> {
 
 export interface PrimitiveReducer<State, Action> {
     _reduce(state: State, action: Action, dependencies: DependencyValues): [State, Effect<Action>]
+    // The cancellation scopes of the children present in `state`, for reducers that scope
+    // child effects or wrap reducers that do.
+    _childScopes?(state: State): string[][]
+    // Restores the persisted parts of `state`, for reducers that persist state or wrap
+    // reducers that do.
+    _rehydrate?(state: State): State
 }
 
 export class EmptyReducer<State, Action> implements PrimitiveReducer<State, Action> {
@@ -49,6 +60,33 @@ export function run<State, Action>(reducer: Reducer<State, Action>, state: State
     }
 }
 
+// The cancellation scopes the reducer gives the effects of children present in `state`,
+// relative to the reducer itself. Lets a reducer that replaces the whole state, like an undo,
+// cancel the effects of children that are gone.
+export function childScopes<State, Action>(reducer: Reducer<State, Action>, state: State): string[][] {
+    if (isComposedReducer(reducer)) {
+        return childScopes(reducer.body, state)
+    } else if (isPrimitiveReducer(reducer) && reducer._childScopes) {
+        return reducer._childScopes(state)
+    }
+    return []
+}
+
+// The state with every slice persisted by the reducer read back from its storage. A
+// `RootStore` does this with its initial state. Only children present from the start count.
+export function rehydrate<State, Action>(reducer: Reducer<State, Action>, state: State): State {
+    if (isComposedReducer(reducer)) {
+        return rehydrate(reducer.body, state)
+    } else if (isPrimitiveReducer(reducer) && reducer._rehydrate) {
+        return reducer._rehydrate(state)
+    }
+    return state
+}
+
+function scopedChildScopes<State, Action>(scope: string, child: Reducer<State, Action>, state: State): string[][] {
+    return [[scope], ...childScopes(child, state).map(x => [scope, ...x])]
+}
+
 export class Scope<ParentState, ParentAction, LocalState, LocalAction> implements PrimitiveReducer<ParentState, ParentAction> {
     state: KeyPath<ParentState, LocalState> | CasePath<ParentState, LocalState>
     action: CasePath<ParentAction, LocalAction>
@@ -60,6 +98,22 @@ export class Scope<ParentState, ParentAction, LocalState, LocalAction> implement
         this.child = body()
     }
 
+    _childScopes(state: ParentState): string[][] {
+        const childState = isKeyPath(this.state) ? this.state.get(state) : this.state.extract(state)
+        if (childState === null) {
+            return []
+        }
+        return childScopes(this.child, childState)
+    }
+
+    _rehydrate(state: ParentState): ParentState {
+        if (isKeyPath(this.state)) {
+            return this.state.set(state, rehydrate(this.child, this.state.get(state)))
+        }
+        const childState = this.state.extract(state)
+        return childState === null ? state : this.state.embed(rehydrate(this.child, childState))
+    }
+
     _reduce(state: ParentState, action: ParentAction, dependencies: DependencyValues): [ParentState, Effect<ParentAction>] {
         if (isKeyPath(this.state)) {
             const childAction = this.action.extract(action)
@@ -98,6 +152,21 @@ export class CombineReducers<State, Action> implements PrimitiveReducer<State, A
         }
     }
 
+    _childScopes(state: State): string[][] {
+        const scopes: string[][] = []
+        for (const reducer of this.reducers) {
+            scopes.push(...childScopes(reducer, state))
+        }
+        return scopes
+    }
+
+    _rehydrate(state: State): State {
+        for (const reducer of this.reducers) {
+            state = rehydrate(reducer, state)
+        }
+        return state
+    }
+
     _reduce(state: State, action: Action, dependencies: DependencyValues): [State, Effect<Action>] {
         const effects: Effect<Action>[] = []
         for (const reducer of this.reducers) {
@@ -109,6 +178,11 @@ export class CombineReducers<State, Action> implements PrimitiveReducer<State, A
     }
 }
 
+export type ElementAction<ChildAction> = {
+    id: string
+    action: ChildAction
+}
+
 export class ChainReducer<State, Action> implements ComposedReducer<State, Action> {
     body: Reducer<State, Action>
 
@@ -135,6 +209,67 @@ export class ChainReducer<State, Action> implements ComposedReducer<State, Actio
         const raw = new _IfCaseLetReducer(this.body, child(), state, action, id)
         return new ChainReducer(raw)
     }
+
+    ifLetPresentation<ChildState, ChildAction>(
+        state: KeyPath<State, PresentationState<ChildState>>,
+        action: CasePath<Action, PresentationAction<ChildAction>>,
+        id: (state: ChildState) => string,
+        child: () => Reducer<ChildState, ChildAction>
+    ): ChainReducer<State, Action> {
+        const parent = new CombineReducers(this.body, new _PresentationDismissingReducer(state, action))
+        const raw = new _IfLetReducer(parent, new _PresentedReducer(child()), state, action, id)
+        return new ChainReducer(raw)
+    }
+
+    forEach<ChildState, ChildAction>(
+        state: KeyPath<State, ChildState[]> | KeyPath<State, IdentifiedArray<string, ChildState>>,
+        action: CasePath<Action, ElementAction<ChildAction>>,
+        id: (state: ChildState) => string,
+        child: () => Reducer<ChildState, ChildAction>
+    ): ChainReducer<State, Action> {
+        const raw = new _ForEachReducer(this.body, child(), state as KeyPath<State, ChildState[] | IdentifiedArray<string, ChildState>>, action, id)
+        return new ChainReducer(raw)
+    }
+
+    forEachStack<ChildState, ChildAction>(
+        state: KeyPath<State, StackState<ChildState>>,
+        action: CasePath<Action, StackAction<ChildState, ChildAction>>,
+        child: () => Reducer<ChildState, ChildAction>
+    ): ChainReducer<State, Action> {
+        const raw = new _ForEachStackReducer(this.body, child(), state, action)
+        return new ChainReducer(raw)
+    }
+
+    dependency<Value>(key: DependencyKey<Value>, value: Value): ChainReducer<State, Action> {
+        return this.transformDependency(key, () => value)
+    }
+
+    transformDependency<Value>(key: DependencyKey<Value>, transform: (value: Value) => Value): ChainReducer<State, Action> {
+        const raw = new _DependencySettingReducer(this.body, dependencies => dependencies.with(key, transform(dependencies.get(key))))
+        return new ChainReducer(raw)
+    }
+
+    // Runs `perform` whenever the value at `keyPath` differs before and after the reducer,
+    // no matter which action changed it.
+    onChange<Value>(
+        keyPath: KeyPath<State, Value>,
+        isEqual: (lhs: Value, rhs: Value) => boolean,
+        perform: (oldValue: Value, newValue: Value, state: Draft<State>) => Effect<Action>
+    ): ChainReducer<State, Action> {
+        const raw = new _OnChangeReducer(this.body, keyPath, isEqual, perform)
+        return new ChainReducer(raw)
+    }
+
+    // Writes the persisted slice to its storage whenever it changes.
+    persisted<Value>(persistence: Persistence<State, Value>): ChainReducer<State, Action> {
+        return new ChainReducer(persistence.reducer(this.body))
+    }
+}
+
+// Operators prefix the scopes of their children, which keeps them apart from the ones of
+// other operators in the same parent.
+function childScope(prefix: string, id: string): string {
+    return `${prefix}/${id}`
 }
 
 class _IfLetReducer<State, Action, ChildState, ChildAction> implements PrimitiveReducer<State, Action> {
@@ -143,6 +278,7 @@ class _IfLetReducer<State, Action, ChildState, ChildAction> implements Primitive
     state: KeyPath<State, ChildState | undefined>
     action: CasePath<Action, ChildAction>
     id: (state: ChildState) => string
+    scopePrefix = uuidv4()
 
     constructor(parent: Reducer<State, Action>, child: Reducer<ChildState, ChildAction>, state: KeyPath<State, ChildState | undefined>, action: CasePath<Action, ChildAction>, id: (state: ChildState) => string) {
         this.parent = parent
@@ -152,6 +288,21 @@ class _IfLetReducer<State, Action, ChildState, ChildAction> implements Primitive
         this.id = id
     }
 
+    _childScopes(state: State): string[][] {
+        const scopes = childScopes(this.parent, state)
+        const childState = this.state.get(state)
+        if (childState) {
+            scopes.push(...scopedChildScopes(childScope(this.scopePrefix, this.id(childState)), this.child, childState))
+        }
+        return scopes
+    }
+
+    _rehydrate(state: State): State {
+        state = rehydrate(this.parent, state)
+        const childState = this.state.get(state)
+        return childState ? this.state.set(state, rehydrate(this.child, childState)) : state
+    }
+
     _reduce(state: State, action: Action, dependencies: DependencyValues): [State, Effect<Action>] {
         const effects: Effect<Action>[] = []
         let pair = this.reduceChild(state, action, dependencies)
@@ -165,7 +316,7 @@ class _IfLetReducer<State, Action, ChildState, ChildAction> implements Primitive
         const newChildId = this.getChildId(state)
 
         if (oldChildId != newChildId && oldChildId !== null) {
-            effects.push(Effect.cancelScope([oldChildId]))
+            effects.push(Effect.cancelScope([childScope(this.scopePrefix, oldChildId)]))
         }
         return [state, Effect.merge(...effects)]
     }
@@ -185,8 +336,8 @@ class _IfLetReducer<State, Action, ChildState, ChildAction> implements Primitive
         const newState = this.state.set(state, newChildState)
         const newEffect = childEffect
             .map(x => this.action.embed(x))
-            .cancellationScope(this.id(newChildState))
-        return [newState, childEffect.map(x => this.action.embed(x))]
+            .cancellationScope(childScope(this.scopePrefix, this.id(newChildState)))
+        return [newState, newEffect]
     }
 
     getChildId(state: State): string | null {
@@ -204,6 +355,7 @@ class _IfCaseLetReducer<State, Action, ChildState, ChildAction> implements Primi
     state: CasePath<State, ChildState>
     action: CasePath<Action, ChildAction>
     id: (state: ChildState) => string
+    scopePrefix = uuidv4()
 
     constructor(parent: Reducer<State, Action>, child: Reducer<ChildState, ChildAction>, state: CasePath<State, ChildState>, action: CasePath<Action, ChildAction>, id: (state: ChildState) => string) {
         this.parent = parent
@@ -213,6 +365,21 @@ class _IfCaseLetReducer<State, Action, ChildState, ChildAction> implements Primi
         this.id = id
     }
 
+    _childScopes(state: State): string[][] {
+        const scopes = childScopes(this.parent, state)
+        const childState = this.state.extract(state)
+        if (childState) {
+            scopes.push(...scopedChildScopes(childScope(this.scopePrefix, this.id(childState)), this.child, childState))
+        }
+        return scopes
+    }
+
+    _rehydrate(state: State): State {
+        state = rehydrate(this.parent, state)
+        const childState = this.state.extract(state)
+        return childState ? this.state.embed(rehydrate(this.child, childState)) : state
+    }
+
     _reduce(state: State, action: Action, dependencies: DependencyValues): [State, Effect<Action>] {
         const effects: Effect<Action>[] = []
         let pair = this.reduceChild(state, action, dependencies)
@@ -226,7 +393,7 @@ class _IfCaseLetReducer<State, Action, ChildState, ChildAction> implements Primi
         const newChildId = this.getChildId(state)
 
         if (oldChildId != newChildId && oldChildId !== null) {
-            effects.push(Effect.cancelScope([oldChildId]))
+            effects.push(Effect.cancelScope([childScope(this.scopePrefix, oldChildId)]))
         }
         return [state, Effect.merge(...effects)]
     }
@@ -246,8 +413,8 @@ class _IfCaseLetReducer<State, Action, ChildState, ChildAction> implements Primi
         const newState = this.state.embed(newChildState)
         const newEffect = childEffect
             .map(x => this.action.embed(x))
-            .cancellationScope(this.id(newChildState))
-        return [newState, childEffect.map(x => this.action.embed(x))]
+            .cancellationScope(childScope(this.scopePrefix, this.id(newChildState)))
+        return [newState, newEffect]
     }
 
     getChildId(state: State): string | null {
@@ -259,20 +426,314 @@ class _IfCaseLetReducer<State, Action, ChildState, ChildAction> implements Primi
     }
 }
 
+class _PresentedReducer<ChildState, ChildAction> implements PrimitiveReducer<ChildState, PresentationAction<ChildAction>> {
+    child: Reducer<ChildState, ChildAction>
+
+    constructor(child: Reducer<ChildState, ChildAction>) {
+        this.child = child
+    }
+
+    _childScopes(state: ChildState): string[][] {
+        return childScopes(this.child, state)
+    }
+
+    _rehydrate(state: ChildState): ChildState {
+        return rehydrate(this.child, state)
+    }
+
+    _reduce(state: ChildState, action: PresentationAction<ChildAction>, dependencies: DependencyValues): [ChildState, Effect<PresentationAction<ChildAction>>] {
+        if (action.kind !== 'presented') {
+            return [state, Effect.none]
+        }
+        const [newState, effect] = run(this.child, state, action.value, dependencies)
+        return [newState, presentedEffect(effect)]
+    }
+}
+
+class _PresentationDismissingReducer<State, Action, ChildState, ChildAction> implements PrimitiveReducer<State, Action> {
+    state: KeyPath<State, PresentationState<ChildState>>
+    action: CasePath<Action, PresentationAction<ChildAction>>
+
+    constructor(state: KeyPath<State, PresentationState<ChildState>>, action: CasePath<Action, PresentationAction<ChildAction>>) {
+        this.state = state
+        this.action = action
+    }
+
+    _reduce(state: State, action: Action, dependencies: DependencyValues): [State, Effect<Action>] {
+        const presentationAction = this.action.extract(action)
+        if (!presentationAction || presentationAction.kind !== 'dismiss' || this.state.get(state) === undefined) {
+            return [state, Effect.none]
+        }
+        return [this.state.set(state, undefined), Effect.none]
+    }
+}
+
+class _ForEachReducer<State, Action, ChildState, ChildAction> implements PrimitiveReducer<State, Action> {
+    parent: Reducer<State, Action>
+    child: Reducer<ChildState, ChildAction>
+    state: KeyPath<State, ChildState[] | IdentifiedArray<string, ChildState>>
+    action: CasePath<Action, ElementAction<ChildAction>>
+    id: (state: ChildState) => string
+    scopePrefix = uuidv4()
+
+    constructor(parent: Reducer<State, Action>, child: Reducer<ChildState, ChildAction>, state: KeyPath<State, ChildState[] | IdentifiedArray<string, ChildState>>, action: CasePath<Action, ElementAction<ChildAction>>, id: (state: ChildState) => string) {
+        this.parent = parent
+        this.child = child
+        this.state = state
+        this.action = action
+        this.id = id
+    }
+
+    _childScopes(state: State): string[][] {
+        const scopes = childScopes(this.parent, state)
+        const elements = this.state.get(state)
+        for (const element of elements instanceof IdentifiedArray ? elements.elements : elements) {
+            scopes.push(...scopedChildScopes(childScope(this.scopePrefix, this.id(element)), this.child, element))
+        }
+        return scopes
+    }
+
+    _rehydrate(state: State): State {
+        state = rehydrate(this.parent, state)
+        const elements = this.state.get(state)
+        if (elements instanceof IdentifiedArray) {
+            return this.state.set(state, produce(elements, draft => {
+                for (const element of elements.elements) {
+                    draft.set(this.id(element), rehydrate(this.child, element))
+                }
+            }))
+        }
+        const rehydrated = elements.map(x => rehydrate(this.child, x))
+        return rehydrated.every((x, i) => x === elements[i]) ? state : this.state.set(state, rehydrated)
+    }
+
+    _reduce(state: State, action: Action, dependencies: DependencyValues): [State, Effect<Action>] {
+        const effects: Effect<Action>[] = []
+        let pair = this.reduceChild(state, action, dependencies)
+        state = pair[0]
+        effects.push(pair[1])
+
+        const oldChildIds = this.getChildIds(state)
+        pair = run(this.parent, state, action, dependencies)
+        state = pair[0]
+        effects.push(pair[1])
+        const newChildIds = new Set(this.getChildIds(state))
+
+        for (const oldChildId of oldChildIds) {
+            if (!newChildIds.has(oldChildId)) {
+                effects.push(Effect.cancelScope([childScope(this.scopePrefix, oldChildId)]))
+            }
+        }
+        return [state, Effect.merge(...effects)]
+    }
+
+    reduceChild(state: State, action: Action, dependencies: DependencyValues): [State, Effect<Action>] {
+        const elementAction = this.action.extract(action)
+        if (!elementAction) {
+            return [state, Effect.none]
+        }
+        const elements = this.state.get(state)
+        const childState = elements instanceof IdentifiedArray
+            ? elements.get(elementAction.id)
+            : elements.find(x => this.id(x) === elementAction.id)
+        if (childState === undefined) {
+            console.warn(`An action is sent to a missing element: ${elementAction.id}`)
+            return [state, Effect.none]
+        }
+
+        const [newChildState, childEffect] = run(this.child, childState, elementAction.action, dependencies)
+        let newElements: ChildState[] | IdentifiedArray<string, ChildState>
+        if (elements instanceof IdentifiedArray) {
+            newElements = produce(elements, draft => {
+                draft.set(elementAction.id, newChildState)
+            })
+        } else {
+            newElements = elements.map(x => this.id(x) === elementAction.id ? newChildState : x)
+        }
+        const newState = this.state.set(state, newElements)
+        const newEffect = childEffect
+            .map(x => this.action.embed({ id: elementAction.id, action: x }))
+            .cancellationScope(childScope(this.scopePrefix, elementAction.id))
+        return [newState, newEffect]
+    }
+
+    getChildIds(state: State): string[] {
+        const elements = this.state.get(state)
+        if (elements instanceof IdentifiedArray) {
+            return elements.ids
+        }
+        return elements.map(this.id)
+    }
+}
+
+class _ForEachStackReducer<State, Action, ChildState, ChildAction> implements PrimitiveReducer<State, Action> {
+    parent: Reducer<State, Action>
+    child: Reducer<ChildState, ChildAction>
+    state: KeyPath<State, StackState<ChildState>>
+    action: CasePath<Action, StackAction<ChildState, ChildAction>>
+    scopePrefix = uuidv4()
+
+    constructor(parent: Reducer<State, Action>, child: Reducer<ChildState, ChildAction>, state: KeyPath<State, StackState<ChildState>>, action: CasePath<Action, StackAction<ChildState, ChildAction>>) {
+        this.parent = parent
+        this.child = child
+        this.state = state
+        this.action = action
+    }
+
+    _childScopes(state: State): string[][] {
+        const scopes = childScopes(this.parent, state)
+        const stack = this.state.get(state)
+        for (const id of stack.ids) {
+            scopes.push(...scopedChildScopes(childScope(this.scopePrefix, id), this.child, stack.storage[id]))
+        }
+        return scopes
+    }
+
+    _rehydrate(state: State): State {
+        state = rehydrate(this.parent, state)
+        const stack = this.state.get(state)
+        return this.state.set(state, produce(stack, draft => {
+            for (const id of stack.ids) {
+                draft.set(id, rehydrate(this.child, stack.storage[id]))
+            }
+        }))
+    }
+
+    _reduce(state: State, action: Action, dependencies: DependencyValues): [State, Effect<Action>] {
+        const effects: Effect<Action>[] = []
+        let pair = this.reduceChild(state, action, dependencies)
+        state = pair[0]
+        effects.push(pair[1])
+
+        const oldStack = this.state.get(state)
+        pair = run(this.parent, state, action, dependencies)
+        state = pair[0]
+        effects.push(pair[1])
+        state = this.reduceStack(state, action)
+        const newStack = this.state.get(state)
+        // None of the children are left if the parent replaced the stack with another one.
+        const newChildIds = new Set(newStack.origin === oldStack.origin ? newStack.ids : [])
+
+        for (const oldChildId of oldStack.ids) {
+            if (!newChildIds.has(oldChildId)) {
+                effects.push(Effect.cancelScope([childScope(this.scopePrefix, oldChildId)]))
+            }
+        }
+        return [state, Effect.merge(...effects)]
+    }
+
+    reduceChild(state: State, action: Action, dependencies: DependencyValues): [State, Effect<Action>] {
+        const stackAction = this.action.extract(action)
+        if (!stackAction || stackAction.kind !== 'element') {
+            return [state, Effect.none]
+        }
+        const { id, action: childAction } = stackAction.value
+        const stack = this.state.get(state)
+        const childState = stack.get(id)
+        if (childState === undefined) {
+            console.warn(`An action is sent to a missing stack element: ${id}`)
+            return [state, Effect.none]
+        }
+
+        const [newChildState, childEffect] = run(this.child, childState, childAction, dependencies)
+        const newStack = produce(stack, draft => {
+            draft.set(id, newChildState)
+        })
+        const newEffect = childEffect
+            .map(x => this.action.embed({ kind: 'element', value: { id, action: x } }))
+            .cancellationScope(childScope(this.scopePrefix, id))
+        return [this.state.set(state, newStack), newEffect]
+    }
+
+    reduceStack(state: State, action: Action): State {
+        const stackAction = this.action.extract(action)
+        if (!stackAction) {
+            return state
+        }
+        switch (stackAction.kind) {
+            case 'push':
+                return this.state.set(state, produce(this.state.get(state), draft => {
+                    draft.push(stackAction.value)
+                }))
+            case 'popFrom':
+                if (!this.state.get(state).has(stackAction.value)) {
+                    console.warn(`Popping a missing stack element: ${stackAction.value}`)
+                    return state
+                }
+                return this.state.set(state, produce(this.state.get(state), draft => {
+                    draft.popFrom(stackAction.value)
+                }))
+            case 'element':
+                return state
+        }
+    }
+}
+
 class _DependencySettingReducer<State, Action> implements PrimitiveReducer<State, Action> {
     wrapped: Reducer<State, Action>
-    updateDependencies: (draft: Draft<DependencyValuesStorage>) => void
+    updateDependencies: (dependencies: DependencyValues) => DependencyValues
 
     constructor(
         wrapped: Reducer<State, Action>,
-        updateDependencies: (draft: Draft<DependencyValuesStorage>) => void
+        updateDependencies: (dependencies: DependencyValues) => DependencyValues
     ) {
         this.wrapped = wrapped
         this.updateDependencies = updateDependencies
     }
 
+    _childScopes(state: State): string[][] {
+        return childScopes(this.wrapped, state)
+    }
+
+    _rehydrate(state: State): State {
+        return rehydrate(this.wrapped, state)
+    }
+
+    _reduce(state: State, action: Action, dependencies: DependencyValues): [State, Effect<Action>] {
+        const updated = this.updateDependencies(dependencies)
+        const [newState, effect] = run(this.wrapped, state, action, updated)
+        // Effects started here keep using the overridden dependencies.
+        return [newState, effect.withDependencies(updated)]
+    }
+}
+
+class _OnChangeReducer<State, Action, Value> implements PrimitiveReducer<State, Action> {
+    wrapped: Reducer<State, Action>
+    keyPath: KeyPath<State, Value>
+    isEqual: (lhs: Value, rhs: Value) => boolean
+    perform: (oldValue: Value, newValue: Value, state: Draft<State>) => Effect<Action>
+
+    constructor(
+        wrapped: Reducer<State, Action>,
+        keyPath: KeyPath<State, Value>,
+        isEqual: (lhs: Value, rhs: Value) => boolean,
+        perform: (oldValue: Value, newValue: Value, state: Draft<State>) => Effect<Action>
+    ) {
+        this.wrapped = wrapped
+        this.keyPath = keyPath
+        this.isEqual = isEqual
+        this.perform = perform
+    }
+
+    _childScopes(state: State): string[][] {
+        return childScopes(this.wrapped, state)
+    }
+
+    _rehydrate(state: State): State {
+        return rehydrate(this.wrapped, state)
+    }
+
     _reduce(state: State, action: Action, dependencies: DependencyValues): [State, Effect<Action>] {
-        const updated = dependencies.mutating(this.updateDependencies)
-        return run(this.wrapped, state, action, updated)
+        const oldValue = this.keyPath.get(state)
+        const [newState, effect] = run(this.wrapped, state, action, dependencies)
+        const newValue = this.keyPath.get(newState)
+        if (this.isEqual(oldValue, newValue)) {
+            return [newState, effect]
+        }
+        let changeEffect: Effect<Action> = Effect.none
+        const changedState = produce(newState, draft => {
+            changeEffect = this.perform(oldValue, newValue, draft)
+        })
+        return [changedState, Effect.merge(effect, changeEffect)]
     }
 }
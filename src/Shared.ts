@@ -0,0 +1,176 @@
+import { Draft, freeze, immerable, produce } from 'immer'
+import { Persistence, PersistenceOptions, PersistenceStorage } from './Persistence'
+
+// Where a shared value lives. Every `Shared` handle onto it holds a copy of the value.
+export class SharedBox<Value> {
+    value: Value
+    persistence?: Persistence<Value, Value>
+
+    private listeners: Set<() => void> = new Set()
+
+    constructor(value: Value) {
+        this.value = freeze(value, true)
+    }
+
+    set(value: Value) {
+        if (value === this.value) {
+            return
+        }
+        this.value = freeze(value, true)
+        if (this.persistence) {
+            this.persistence.save(value)
+        }
+        for (const listener of [...this.listeners]) {
+            listener()
+        }
+    }
+
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener)
+        return () => {
+            this.listeners.delete(listener)
+        }
+    }
+}
+
+// A value that several features hold in their states at once, like the current user.
+// Reducers change it through the draft, with `state.user.value = ...` or `state.user.update(...)`,
+// and every store holding it is notified.
+//
+// Handles are drafted like the rest of the state and keep a copy of the value, so reducers stay
+// pure. A `RootStore` writes the values changed by its reducer to the shared value afterwards,
+// and brings every handle in its state up to date whenever the shared value changes. Outside
+// reducers, change the shared value with `box.set`.
+export class Shared<Value> {
+    [immerable] = true
+
+    readonly box: SharedBox<Value>
+    value: Value
+
+    constructor(value: Value)
+    constructor(box: SharedBox<Value>)
+
+    constructor(arg: Value | SharedBox<Value>) {
+        this.box = arg instanceof SharedBox ? arg : new SharedBox(arg)
+        this.value = this.box.value
+    }
+
+    update(recipe: (draft: Draft<Value>) => void) {
+        this.value = produce(this.value, recipe)
+    }
+
+    subscribe(listener: () => void): () => void {
+        return this.box.subscribe(listener)
+    }
+
+    toJSON(): Value {
+        return this.value
+    }
+
+    // Handles with the same key and storage share one value, which is read from the storage
+    // the first time and written back when it changes, throttled like any persisted state.
+    static persisted<Value>(defaultValue: Value, options: PersistenceOptions<Value>): Shared<Value> {
+        let boxes = persistedBoxes.get(options.storage)
+        if (!boxes) {
+            boxes = new Map()
+            persistedBoxes.set(options.storage, boxes)
+        }
+        let box = boxes.get(options.key)
+        if (!box) {
+            const persistence = new Persistence(wholeValue<Value>(), options)
+            box = new SharedBox(persistence.rehydrate(defaultValue))
+            box.persistence = persistence
+            boxes.set(options.key, box)
+        }
+        return new Shared<Value>(box)
+    }
+}
+
+const persistedBoxes = new WeakMap<PersistenceStorage, Map<string, SharedBox<any>>>()
+
+function wholeValue<Value>() {
+    return {
+        get: (value: Value) => value,
+        set: (_: Value, value: Value) => value
+    }
+}
+
+// MARK: Stores
+
+type PathKey = string | number
+
+type Found = { shared: Shared<any>, path: PathKey[] }
+
+// The shared values in a state, to observe them.
+export function findShared(state: unknown): Set<SharedBox<any>> {
+    return new Set(sharedPaths(state).map(x => x.shared.box))
+}
+
+// The values written by a reducer that turned `oldState` into `newState`: the ones of the
+// handles it created that differ from their shared values.
+export function sharedWrites(oldState: unknown, newState: unknown): Map<SharedBox<any>, unknown> {
+    const old = new Set(sharedPaths(oldState).map(x => x.shared))
+    const writes = new Map<SharedBox<any>, unknown>()
+    for (const { shared } of sharedPaths(newState)) {
+        if (!old.has(shared) && shared.value !== shared.box.value) {
+            writes.set(shared.box, shared.value)
+        }
+    }
+    return writes
+}
+
+// Replaces every handle whose value is out of date, and so every object containing one. The
+// value of a handle is the one in `values`, or else the shared value.
+export function refreshShared<State>(state: State, values: Map<SharedBox<any>, unknown> = new Map()): State {
+    const stale = sharedPaths(state).filter(({ shared }) => shared.value !== valueOf(shared.box, values))
+    if (stale.length === 0) {
+        return state
+    }
+    return produce(state, (draft: any) => {
+        for (const { shared, path } of stale) {
+            let target = draft
+            for (let i = 0; i < path.length - 1; i++) {
+                target = target[path[i]]
+            }
+            const refreshed = new Shared<any>(shared.box)
+            refreshed.value = valueOf(shared.box, values)
+            target[path[path.length - 1]] = refreshed
+        }
+    })
+}
+
+function valueOf(box: SharedBox<any>, values: Map<SharedBox<any>, unknown>): unknown {
+    return values.has(box) ? values.get(box) : box.value
+}
+
+// States are immutable, so the paths of unchanged subtrees are cached.
+const pathCache = new WeakMap<object, Found[]>()
+
+function sharedPaths(value: unknown): Found[] {
+    if (value instanceof Shared) {
+        return [{ shared: value, path: [] }]
+    }
+    if (typeof value !== 'object' || value === null || !isTraversable(value)) {
+        return []
+    }
+    const cached = pathCache.get(value)
+    if (cached) {
+        return cached
+    }
+    const paths: Found[] = []
+    for (const key of Object.keys(value)) {
+        for (const x of sharedPaths((value as any)[key])) {
+            paths.push({ shared: x.shared, path: [Array.isArray(value) ? Number(key) : key, ...x.path] })
+        }
+    }
+    pathCache.set(value, paths)
+    return paths
+}
+// Only what Immer can draft, so that `refreshShared` can write along the paths.
+function isTraversable(value: object): boolean {
+    if (Array.isArray(value)) {
+        return true
+    }
+    const prototype = Object.getPrototypeOf(value)
+    return prototype === Object.prototype || prototype === null || !!(value as any)[immerable]
+}
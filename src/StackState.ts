@@ -0,0 +1,95 @@
+import { immerable } from 'immer'
+import { ElementAction } from './Reducer'
+
+// A navigation stack. Each pushed element gets an id that stays the same for as long as
+// it is on the stack, and is never reused by later pushes. Ids are counted per stack, so
+// reducers pushing elements stay deterministic.
+export class StackState<Element> {
+    [immerable] = true
+
+    ids: string[] = []
+    storage: { [id: string]: Element } = {}
+    nextId: number = 0
+    // The same for every copy Immer makes of the stack, and different for a stack made anew,
+    // so a stack that replaces another one can be told apart even when their ids are the same.
+    readonly origin: object = {}
+
+    constructor(elements: Element[] = []) {
+        for (const element of elements) {
+            this.push(element)
+        }
+    }
+
+    get length(): number {
+        return this.ids.length
+    }
+
+    get elements(): Element[] {
+        return this.ids.map(id => this.storage[id])
+    }
+
+    get last(): Element | undefined {
+        if (this.ids.length === 0) {
+            return undefined
+        }
+        return this.storage[this.ids[this.ids.length - 1]]
+    }
+
+    has(id: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this.storage, id)
+    }
+
+    get(id: string): Element | undefined {
+        if (!this.has(id)) {
+            return undefined
+        }
+        return this.storage[id]
+    }
+
+    set(id: string, element: Element) {
+        if (!this.has(id)) {
+            throw new Error(`No element with id ${id} on the stack`)
+        }
+        this.storage[id] = element
+    }
+
+    push(element: Element): string {
+        const id = `${this.nextId}`
+        this.nextId += 1
+        this.ids.push(id)
+        this.storage[id] = element
+        return id
+    }
+
+    popLast(): Element | undefined {
+        const id = this.ids.pop()
+        if (id === undefined) {
+            return undefined
+        }
+        const element = this.storage[id]
+        delete this.storage[id]
+        return element
+    }
+
+    // Pops the element with the given id and everything pushed after it.
+    popFrom(id: string) {
+        const index = this.ids.indexOf(id)
+        if (index < 0) {
+            return
+        }
+        for (const removed of this.ids.splice(index)) {
+            delete this.storage[removed]
+        }
+    }
+}
+
+export type StackAction<ChildState, ChildAction> = {
+    kind: 'push'
+    value: ChildState
+} | {
+    kind: 'popFrom'
+    value: string
+} | {
+    kind: 'element'
+    value: ElementAction<ChildAction>
+}
@@ -1,80 +1,354 @@
+import { Draft, produce } from 'immer'
 import { v4 as uuidv4 } from 'uuid'
-import { EffectContext, EffectContextTree, ResolvedEffect, resolveEffect } from './Effect'
-import { Reducer, run } from './Reducer'
+import { Effect, EffectContext, EffectContextRegistry, EffectContextTree, ResolvedEffect, resolveEffect, throttleStates } from './Effect'
+import { Reducer, run, rehydrate } from './Reducer'
 import { DependencyValues } from './DependencyValues'
+import { IdentifiedArray } from './IdentifiedArray'
+import { KeyPath, CasePath } from './PropertyPath'
+import { Shared, SharedBox, findShared, refreshShared, sharedWrites } from './Shared'
+
+type ConcatenatedEffect<Action> = Extract<ResolvedEffect<Action>, { kind: 'concatenate' }>
+
+type RunningEffect = {
+    context: EffectContext
+    // Settles when the effect completes or is cancelled, whichever happens first.
+    finished: Promise<void>
+}
+
+// Whether an action was sent to the store from outside, or by one of its effects.
+export type ActionSource = 'user' | 'effect'
+
+export type ActionObserver<State, Action> = (action: Action, state: State, source: ActionSource) => void
+
+// The long-running effects started by one `send`.
+export class StoreTask {
+    finished: Promise<void>
+    private contexts: EffectContext[]
+
+    constructor(effects: RunningEffect[]) {
+        this.finished = Promise.all(effects.map(x => x.finished)).then(() => {})
+        this.contexts = effects.map(x => x.context)
+    }
+
+    get isCancelled(): boolean {
+        return this.contexts.length > 0 && this.contexts.every(x => x.isCancelled)
+    }
+
+    cancel() {
+        for (const context of this.contexts) {
+            context.cancel()
+        }
+    }
+}
 
 export interface Store<State, Action> {
     state: State
-    send(action: Action): void
+    // The state the server rendered, while a hydrated store may still differ from it.
+    serverState?: State
+    send(action: Action): StoreTask
     subscribe(id: string, callback: (state: State) => void): void
     unsubscribe(id: string): void
+    scope<ChildState, ChildAction>(state: KeyPath<State, ChildState>, action: CasePath<Action, ChildAction>): Store<ChildState, ChildAction>
+    scopeIfLet<ChildState, ChildAction>(state: KeyPath<State, ChildState | undefined>, action: CasePath<Action, ChildAction>, id: (state: ChildState) => string): Store<ChildState, ChildAction> | undefined
+    scopeCase<ChildState, ChildAction>(state: CasePath<State, ChildState>, action: CasePath<Action, ChildAction>, id: (state: ChildState) => string): Store<ChildState, ChildAction> | undefined
+}
+
+// Child stores of one store, so that scoping along the same paths returns the same store.
+// Paths with keys are matched by key, others by identity.
+class ChildStores<State, Action> {
+    parent: Store<State, Action>
+    keyed: Map<string, Store<any, any>> = new Map()
+    unkeyed: WeakMap<object, WeakMap<object, Store<any, any>>> = new WeakMap()
+
+    constructor(parent: Store<State, Action>) {
+        this.parent = parent
+    }
+
+    scope<ChildState, ChildAction>(state: KeyPath<State, ChildState>, action: CasePath<Action, ChildAction>): Store<ChildState, ChildAction> {
+        const cached = this.get('scope', state, action)
+        if (cached) {
+            return cached
+        }
+        const child = new ScopedStore(this.parent, state.get, action.embed)
+        this.set('scope', state, action, child)
+        return child
+    }
+
+    scopeIfLet<ChildState, ChildAction>(
+        state: KeyPath<State, ChildState | undefined>,
+        action: CasePath<Action, ChildAction>,
+        id: (state: ChildState) => string
+    ): Store<ChildState, ChildAction> | undefined {
+        return this.scopeOptional('ifLet', state, state.get, action, id)
+    }
+
+    scopeCase<ChildState, ChildAction>(
+        state: CasePath<State, ChildState>,
+        action: CasePath<Action, ChildAction>,
+        id: (state: ChildState) => string
+    ): Store<ChildState, ChildAction> | undefined {
+        return this.scopeOptional('case', state, state.extract, action, id)
+    }
+
+    // A child store lives as long as the child with the same id; a new id gets a new store.
+    private scopeOptional<ChildState, ChildAction>(
+        kind: string,
+        path: KeyPath<State, ChildState | undefined> | CasePath<State, ChildState>,
+        extract: (state: State) => ChildState | undefined | null,
+        action: CasePath<Action, ChildAction>,
+        id: (state: ChildState) => string
+    ): Store<ChildState, ChildAction> | undefined {
+        const childState = extract(this.parent.state)
+        if (childState === undefined || childState === null) {
+            return undefined
+        }
+        const childId = id(childState)
+        const cached = this.get(kind, path, action)
+        if (cached instanceof OptionalScopedStore && cached.childId === childId) {
+            return cached
+        }
+        const child = new OptionalScopedStore(this.parent, extract, action.embed, id, childState)
+        this.set(kind, path, action, child)
+        return child
+    }
+
+    private get(kind: string, state: { key?: string }, action: { key?: string }): Store<any, any> | undefined {
+        if (state.key !== undefined && action.key !== undefined) {
+            return this.keyed.get(JSON.stringify([kind, state.key, action.key]))
+        }
+        return this.unkeyed.get(state)?.get(action)
+    }
+
+    private set(kind: string, state: { key?: string }, action: { key?: string }, child: Store<any, any>) {
+        if (state.key !== undefined && action.key !== undefined) {
+            this.keyed.set(JSON.stringify([kind, state.key, action.key]), child)
+            return
+        }
+        let children = this.unkeyed.get(state)
+        if (!children) {
+            children = new WeakMap()
+            this.unkeyed.set(state, children)
+        }
+        children.set(action, child)
+    }
 }
 
 export class RootStore<State, Action> implements Store<State, Action> {
     state: State
     reducer: Reducer<State, Action>
-    namedEffects: Map<string, EffectContext> = new Map()
+    namedEffects = new EffectContextRegistry()
     effectTree = new EffectContextTree()
 
+    dependencies: DependencyValues
+    serverState?: State
+
+    // Called with errors that effects throw and nothing catches.
+    onEffectError: (error: unknown) => void = error => {
+        console.error('An effect failed with an uncaught error', error)
+    }
+
     callbacks: Map<string, (state: State) => void> = new Map()
+    actionObservers: Map<string, ActionObserver<State, Action>> = new Map()
 
-    constructor(initialState: State, reducer: Reducer<State, Action>) {
-        this.state = initialState
+    private inFlightEffects: Set<Promise<void>> = new Set()
+    private children = new ChildStores(this)
+
+    // Shared values in the state. Changes made while reducing are applied once the reducer
+    // returns, since the reducer's result would replace them otherwise.
+    private sharedSubscriptions: Map<SharedBox<any>, () => void> = new Map()
+    private isReducing = false
+    private isDisposed = false
+
+    // Persisted slices of the initial state are read back from their storage.
+    constructor(initialState: State, reducer: Reducer<State, Action>, dependencies: DependencyValues = new DependencyValues()) {
+        this.state = rehydrate(reducer, initialState)
         this.reducer = reducer
+        this.dependencies = dependencies.with(throttleStates, new Map())
+        this.observeShared()
+    }
+
+    send(action: Action): StoreTask {
+        return this.dispatch(action, 'user')
+    }
+
+    // Replaces the state without running the reducer, e.g. to jump to a past state.
+    replaceState(state: State) {
+        if (state === this.state) {
+            return
+        }
+        this.state = state
+        this.notify()
+    }
+
+    observeActions(id: string, observer: ActionObserver<State, Action>) {
+        this.actionObservers.set(id, observer)
+    }
+
+    unobserveActions(id: string) {
+        this.actionObservers.delete(id)
+    }
+
+    // Stops following the shared values in the state. Shared values outlive stores, so a store
+    // that is done with, like one rendering a page on the server, has to be disposed of to be freed.
+    dispose() {
+        this.isDisposed = true
+        for (const [_, unsubscribe] of this.sharedSubscriptions) {
+            unsubscribe()
+        }
+        this.sharedSubscriptions.clear()
+    }
+
+    // Waits until every effect in flight has finished, including ones started while waiting.
+    async finishAll(): Promise<void> {
+        while (this.inFlightEffects.size > 0) {
+            await Promise.all(this.inFlightEffects)
+        }
     }
 
-    send(action: Action) {
+    private dispatch(action: Action, source: ActionSource): StoreTask {
         const oldState = this.state
 
+        const effects: RunningEffect[] = []
         const pendingActions: Action[] = [action]
+        let nextSource = source
         while (true) {
             const next = pendingActions.shift()
             if (!next) {
                 break
             }
-            this.processAction(next, pendingActions)
+            this.processAction(next, nextSource, pendingActions, effects)
+            // Later actions come from effects that produced them synchronously.
+            nextSource = 'effect'
         }
 
-        if (oldState === this.state) {
-            return
+        const task = new StoreTask(effects)
+        if (oldState !== this.state) {
+            this.notify()
         }
+        return task
+    }
+
+    private notify() {
+        this.observeShared()
         for (const [_, callback] of this.callbacks) {
             callback(this.state)
-        }      
+        }
     }
 
-    private processAction(action: Action, pendingActions: Action[]) {
-        const [newState, effect] = run(this.reducer, this.state, action, new DependencyValues())
-        this.state = newState
-        
-        for (const x of resolveEffect(effect, [])) {
-            this.processResolvedEffect(x, pendingActions)
+    private processAction(action: Action, source: ActionSource, pendingActions: Action[], effects: RunningEffect[]) {
+        this.isReducing = true
+        let newState: State
+        let effect: Effect<Action>
+        try {
+            [newState, effect] = run(this.reducer, this.state, action, this.dependencies)
+            for (const [box, value] of sharedWrites(this.state, newState)) {
+                box.set(value)
+            }
+        } finally {
+            this.isReducing = false
+        }
+        this.state = refreshShared(newState)
+        for (const [_, observer] of this.actionObservers) {
+            observer(action, this.state, source)
+        }
+
+        for (const x of resolveEffect(effect, [], this.dependencies)) {
+            const running = this.processResolvedEffect(x, pendingActions)
+            if (running) {
+                effects.push(running)
+            }
         }
     }
 
-    private processResolvedEffect(x: ResolvedEffect<Action>, pendingActions: Action[]) {
+    private observeShared() {
+        if (this.isDisposed) {
+            return
+        }
+        const found = findShared(this.state)
+        for (const [box, unsubscribe] of this.sharedSubscriptions) {
+            if (!found.has(box)) {
+                unsubscribe()
+                this.sharedSubscriptions.delete(box)
+            }
+        }
+        for (const box of found) {
+            if (!this.sharedSubscriptions.has(box)) {
+                this.sharedSubscriptions.set(box, box.subscribe(() => this.sharedChanged()))
+            }
+        }
+    }
+
+    private sharedChanged() {
+        if (!this.isReducing) {
+            this.replaceState(refreshShared(this.state))
+        }
+    }
+
+    private track(context: EffectContext, task: Promise<void>): RunningEffect {
+        const cancelled = new Promise<void>(resolve => context.addCancellationListener(resolve))
+        const finished = Promise.race([task, cancelled])
+        this.inFlightEffects.add(finished)
+        finished.then(() => this.inFlightEffects.delete(finished))
+        return { context, finished }
+    }
+
+    private processResolvedEffect(x: ResolvedEffect<Action>, pendingActions: Action[]): RunningEffect | undefined {
         switch (x.kind) {
             case 'cancel-scope':
                 this.effectTree.cancel(x.scope)
-                break
+                return
             case 'cancel-id':
-                const context = this.namedEffects.get(x.id)
-                context?.cancel()
-                break
+                this.namedEffects.cancel(x.id)
+                return
             case 'action':
                 pendingActions.push(x.value)
-                break
+                return
             case 'long-running':
-                if (x.id) {
-                    this.namedEffects.get(x.id)?.cancel()
-                }
                 this.effectTree.add(x.context, x.scope)
+                this.namedEffects.add(x.context, x.ids)
                 const task = async () => {
-                    for await (const action of x.start()) {
-                        this.send(action)
+                    try {
+                        for await (const action of x.start()) {
+                            this.dispatch(action, 'effect')
+                        }
+                    } catch (error) {
+                        this.onEffectError(error)
+                    } finally {
+                        this.effectTree.remove(x.context, x.scope)
+                        this.namedEffects.remove(x.context, x.ids)
+                    }
+                }
+                return this.track(x.context, task())
+            case 'concatenate':
+                this.effectTree.add(x.context, x.scope)
+                this.namedEffects.add(x.context, x.ids)
+                const concatenation = async () => {
+                    try {
+                        await this.runConcatenated(x, pendingActions)
+                    } finally {
+                        this.effectTree.remove(x.context, x.scope)
+                        this.namedEffects.remove(x.context, x.ids)
                     }
                 }
-                task()
+                return this.track(x.context, concatenation())
+        }
+    }
+
+    private async runConcatenated(x: ConcatenatedEffect<Action>, pendingActions: Action[]) {
+        for (let i = 0; i < x.steps.length; i++) {
+            if (x.context.isCancelled) {
+                return
+            }
+            // The first step starts within the send that returned the effect. Later steps
+            // start on their own, so their actions have to be sent here.
+            const stepActions = i === 0 ? pendingActions : []
+            const effects = x.steps[i].map(y => this.processResolvedEffect(y, stepActions))
+            if (i > 0) {
+                for (const action of stepActions) {
+                    this.dispatch(action, 'effect')
+                }
+            }
+            await Promise.all(effects.map(y => y?.finished))
         }
     }
 
@@ -85,32 +359,311 @@ export class RootStore<State, Action> implements Store<State, Action> {
     unsubscribe(id: string) {
         this.callbacks.delete(id)
     }
+
+    scope<ChildState, ChildAction>(state: KeyPath<State, ChildState>, action: CasePath<Action, ChildAction>): Store<ChildState, ChildAction> {
+        return this.children.scope(state, action)
+    }
+
+    scopeIfLet<ChildState, ChildAction>(state: KeyPath<State, ChildState | undefined>, action: CasePath<Action, ChildAction>, id: (state: ChildState) => string): Store<ChildState, ChildAction> | undefined {
+        return this.children.scopeIfLet(state, action, id)
+    }
+
+    scopeCase<ChildState, ChildAction>(state: CasePath<State, ChildState>, action: CasePath<Action, ChildAction>, id: (state: ChildState) => string): Store<ChildState, ChildAction> | undefined {
+        return this.children.scopeCase(state, action, id)
+    }
+}
+
+export class TestStore<State, Action> {
+    state: State
+    reducer: Reducer<State, Action>
+    namedEffects = new EffectContextRegistry()
+    effectTree = new EffectContextTree()
+    dependencies: DependencyValues
+    timeout: number = 1000
+
+    private reducerState: State
+    private receivedActions: { action: Action, state: State }[] = []
+    private effectErrors: unknown[] = []
+    private inFlightEffects: Set<EffectContext> = new Set()
+    private waiters: (() => void)[] = []
+    // The shared values the reducer wrote. They're kept here rather than written to the
+    // shared values themselves, so tests don't change them for other stores.
+    private sharedValues: Map<SharedBox<any>, unknown> = new Map()
+
+    constructor(initialState: State, reducer: Reducer<State, Action>, dependencies: DependencyValues = new DependencyValues({}, 'test')) {
+        this.state = initialState
+        this.reducerState = initialState
+        this.reducer = reducer
+        this.dependencies = dependencies.with(throttleStates, new Map())
+    }
+
+    send(action: Action, expectedMutation?: (draft: Draft<State>) => void) {
+        if (this.receivedActions.length > 0) {
+            throw new Error(`Must handle ${this.receivedActions.length} received action(s) before sending an action: ${describe(this.receivedActions.map(x => x.action))}`)
+        }
+        const state = this.process(action, false)
+        this.assertMutation(expectedMutation, state)
+    }
+
+    async receive(
+        matcher: Action | ((action: Action) => boolean),
+        expectedMutation?: (draft: Draft<State>) => void,
+        timeout: number = this.timeout
+    ): Promise<void> {
+        await this.waitUntil(() => this.receivedActions.length > 0 || !this.hasInFlightEffects, timeout)
+        const received = this.receivedActions.shift()
+        if (!received) {
+            if (this.hasInFlightEffects) {
+                throw new Error(`Expected to receive an action, but received none after ${timeout}ms.`)
+            }
+            throw new Error('Expected to receive an action, but no effects are in flight.')
+        }
+
+        const matches = typeof matcher === 'function'
+            ? (matcher as (action: Action) => boolean)(received.action)
+            : isDeepEqual(matcher, received.action)
+        if (!matches) {
+            throw new Error(`Received unexpected action: ${describe(received.action)}`)
+        }
+        this.assertMutation(expectedMutation, received.state)
+    }
+
+    async receiveEffectError(matcher?: (error: unknown) => boolean, timeout: number = this.timeout): Promise<void> {
+        await this.waitUntil(() => this.effectErrors.length > 0 || !this.hasInFlightEffects, timeout)
+        if (this.effectErrors.length === 0) {
+            throw new Error(`Expected an effect to fail, but none did after ${timeout}ms.`)
+        }
+        const error = this.effectErrors.shift()
+        if (matcher && !matcher(error)) {
+            throw new Error(`An effect failed with an unexpected error: ${String(error)}`)
+        }
+    }
+
+    async finish(timeout: number = this.timeout): Promise<void> {
+        await this.waitUntil(() => !this.hasInFlightEffects, timeout)
+        if (this.effectErrors.length > 0) {
+            throw new Error(`${this.effectErrors.length} effect(s) failed with uncaught errors: ${this.effectErrors.map(String).join(', ')}`)
+        }
+        if (this.receivedActions.length > 0) {
+            throw new Error(`The store received ${this.receivedActions.length} unexpected action(s): ${describe(this.receivedActions.map(x => x.action))}`)
+        }
+        if (this.hasInFlightEffects) {
+            throw new Error(`An effect returned for an action is still running after ${timeout}ms.`)
+        }
+    }
+
+    get hasInFlightEffects(): boolean {
+        for (const context of this.inFlightEffects) {
+            if (!context.isCancelled) {
+                return true
+            }
+        }
+        return false
+    }
+
+    // Returns the state right after `action`, before the actions its effects emitted synchronously.
+    private process(action: Action, isReceived: boolean): State {
+        const pendingActions: Action[] = [action]
+        let received = isReceived
+        let state: State | undefined
+        while (pendingActions.length > 0) {
+            const next = pendingActions.shift() as Action
+            this.processAction(next, pendingActions)
+            if (state === undefined) {
+                state = this.reducerState
+            }
+            if (received) {
+                this.receivedActions.push({ action: next, state: this.reducerState })
+            }
+            // Actions emitted synchronously by effects must be received as well.
+            received = true
+        }
+        this.notify()
+        return state as State
+    }
+
+    private processAction(action: Action, pendingActions: Action[]) {
+        const [newState, effect] = run(this.reducer, this.reducerState, action, this.dependencies)
+        for (const [box, value] of sharedWrites(this.reducerState, newState)) {
+            this.sharedValues.set(box, value)
+        }
+        this.reducerState = refreshShared(newState, this.sharedValues)
+
+        for (const x of resolveEffect(effect, [], this.dependencies)) {
+            this.processResolvedEffect(x, pendingActions)
+        }
+    }
+
+    private processResolvedEffect(x: ResolvedEffect<Action>, pendingActions: Action[]): Promise<void> | undefined {
+        switch (x.kind) {
+            case 'cancel-scope':
+                this.effectTree.cancel(x.scope)
+                return
+            case 'cancel-id':
+                this.namedEffects.cancel(x.id)
+                return
+            case 'action':
+                pendingActions.push(x.value)
+                return
+            case 'long-running':
+                this.effectTree.add(x.context, x.scope)
+                this.namedEffects.add(x.context, x.ids)
+                this.inFlightEffects.add(x.context)
+                const task = async () => {
+                    try {
+                        for await (const action of x.start()) {
+                            this.process(action, true)
+                        }
+                    } catch (error) {
+                        this.effectErrors.push(error)
+                    } finally {
+                        this.effectTree.remove(x.context, x.scope)
+                        this.namedEffects.remove(x.context, x.ids)
+                        this.inFlightEffects.delete(x.context)
+                        this.notify()
+                    }
+                }
+                return task()
+            case 'concatenate':
+                this.effectTree.add(x.context, x.scope)
+                this.namedEffects.add(x.context, x.ids)
+                this.inFlightEffects.add(x.context)
+                const concatenation = async () => {
+                    try {
+                        await this.runConcatenated(x, pendingActions)
+                    } finally {
+                        this.effectTree.remove(x.context, x.scope)
+                        this.namedEffects.remove(x.context, x.ids)
+                        this.inFlightEffects.delete(x.context)
+                        this.notify()
+                    }
+                }
+                return concatenation()
+        }
+    }
+
+    private async runConcatenated(x: ConcatenatedEffect<Action>, pendingActions: Action[]) {
+        for (let i = 0; i < x.steps.length; i++) {
+            if (x.context.isCancelled) {
+                return
+            }
+            const stepActions = i === 0 ? pendingActions : []
+            const tasks = x.steps[i].map(y => this.processResolvedEffect(y, stepActions))
+            if (i > 0) {
+                for (const action of stepActions) {
+                    this.process(action, true)
+                }
+            }
+            await Promise.all(tasks)
+        }
+    }
+
+    private assertMutation(expectedMutation: ((draft: Draft<State>) => void) | undefined, actual: State) {
+        let expected = this.state
+        if (expectedMutation) {
+            expected = produce(this.state, draft => {
+                expectedMutation(draft)
+            })
+        }
+        this.state = actual
+        if (!isDeepEqual(expected, actual)) {
+            throw new Error(`State change does not match expectation.\n\nExpected: ${describe(expected)}\nActual: ${describe(actual)}`)
+        }
+    }
+
+    private async waitUntil(condition: () => boolean, timeout: number) {
+        const deadline = Date.now() + timeout
+        while (!condition()) {
+            const remaining = deadline - Date.now()
+            if (remaining <= 0) {
+                return
+            }
+            await new Promise<void>(resolve => {
+                const timer = setTimeout(resolve, remaining)
+                this.waiters.push(() => {
+                    clearTimeout(timer)
+                    resolve()
+                })
+            })
+        }
+    }
+
+    private notify() {
+        const waiters = this.waiters
+        this.waiters = []
+        for (const waiter of waiters) {
+            waiter()
+        }
+    }
+}
+
+function isDeepEqual(lhs: any, rhs: any): boolean {
+    if (Object.is(lhs, rhs)) {
+        return true
+    }
+    if (typeof lhs !== 'object' || typeof rhs !== 'object' || lhs === null || rhs === null) {
+        return false
+    }
+    if (lhs instanceof Shared || rhs instanceof Shared) {
+        return lhs instanceof Shared && rhs instanceof Shared && lhs.box === rhs.box && isDeepEqual(lhs.value, rhs.value)
+    }
+    if (lhs instanceof IdentifiedArray || rhs instanceof IdentifiedArray) {
+        return lhs instanceof IdentifiedArray && rhs instanceof IdentifiedArray && lhs.equals(rhs, isDeepEqual)
+    }
+    if (Array.isArray(lhs) !== Array.isArray(rhs)) {
+        return false
+    }
+    if (lhs instanceof Date || rhs instanceof Date) {
+        return lhs instanceof Date && rhs instanceof Date && lhs.getTime() === rhs.getTime()
+    }
+
+    const lhsKeys = Object.keys(lhs)
+    const rhsKeys = Object.keys(rhs)
+    if (lhsKeys.length !== rhsKeys.length) {
+        return false
+    }
+    for (const key of lhsKeys) {
+        if (!Object.prototype.hasOwnProperty.call(rhs, key) || !isDeepEqual(lhs[key], rhs[key])) {
+            return false
+        }
+    }
+    return true
+}
+
+function describe(value: any): string {
+    return JSON.stringify(value, null, 2)
 }
 
 export class ScopedStore<State, Action, LocalState, LocalAction> implements Store<LocalState, LocalAction> {
-    rootStore: RootStore<State, Action>
+    parent: Store<State, Action>
     toLocalState: (state: State) => LocalState
     fromLocalAction: (localAction: LocalAction) => Action
 
     private id = uuidv4()
+    private children = new ChildStores(this)
 
-    constructor(rootStore: RootStore<State, Action>, toLocalState: (state: State) => LocalState, fromLocalAction: (localAction: LocalAction) => Action) {
-        this.rootStore = rootStore
+    constructor(parent: Store<State, Action>, toLocalState: (state: State) => LocalState, fromLocalAction: (localAction: LocalAction) => Action) {
+        this.parent = parent
         this.toLocalState = toLocalState
         this.fromLocalAction = fromLocalAction
     }
 
     get state(): LocalState {
-        return this.toLocalState(this.rootStore.state)
+        return this.toLocalState(this.parent.state)
+    }
+
+    get serverState(): LocalState | undefined {
+        const parentState = this.parent.serverState
+        return parentState === undefined ? undefined : this.toLocalState(parentState)
     }
 
-    send(action: LocalAction) {
-        this.rootStore.send(this.fromLocalAction(action))
+    send(action: LocalAction): StoreTask {
+        return this.parent.send(this.fromLocalAction(action))
     }
 
     subscribe(id: string, callback: (state: LocalState) => void) {
         let lastState: LocalState | null = null
-        this.rootStore.subscribe(`${this.id}/${id}`, x => {
+        this.parent.subscribe(`${this.id}/${id}`, x => {
             const newState = this.toLocalState(x)
             if (newState === lastState) {
                 return
@@ -121,6 +674,73 @@ export class ScopedStore<State, Action, LocalState, LocalAction> implements Stor
     }
 
     unsubscribe(id: string) {
-        this.rootStore.unsubscribe(`${this.id}/${id}`)
+        this.parent.unsubscribe(`${this.id}/${id}`)
+    }
+
+    scope<ChildState, ChildAction>(state: KeyPath<LocalState, ChildState>, action: CasePath<LocalAction, ChildAction>): Store<ChildState, ChildAction> {
+        return this.children.scope(state, action)
+    }
+
+    scopeIfLet<ChildState, ChildAction>(state: KeyPath<LocalState, ChildState | undefined>, action: CasePath<LocalAction, ChildAction>, id: (state: ChildState) => string): Store<ChildState, ChildAction> | undefined {
+        return this.children.scopeIfLet(state, action, id)
+    }
+
+    scopeCase<ChildState, ChildAction>(state: CasePath<LocalState, ChildState>, action: CasePath<LocalAction, ChildAction>, id: (state: ChildState) => string): Store<ChildState, ChildAction> | undefined {
+        return this.children.scopeCase(state, action, id)
+    }
+}
+
+// A store of an optional or enum child, bound to the child with one id. Once that child is
+// gone or replaced, its state stays at the last value and actions sent to it are dropped.
+export class OptionalScopedStore<State, Action, LocalState, LocalAction> extends ScopedStore<State, Action, LocalState, LocalAction> {
+    childId: string
+    extract: (state: State) => LocalState | undefined | null
+    childIdOf: (state: LocalState) => string
+
+    constructor(
+        parent: Store<State, Action>,
+        extract: (state: State) => LocalState | undefined | null,
+        fromLocalAction: (localAction: LocalAction) => Action,
+        id: (state: LocalState) => string,
+        initialState: LocalState
+    ) {
+        const childId = id(initialState)
+        let lastState = initialState
+        super(parent, state => {
+            const childState = extract(state)
+            if (childState !== undefined && childState !== null && id(childState) === childId) {
+                lastState = childState
+            }
+            return lastState
+        }, fromLocalAction)
+        this.childId = childId
+        this.extract = extract
+        this.childIdOf = id
+    }
+
+    // Falls back to the current state, rather than updating the last one, when the server
+    // rendered a different child or none.
+    get serverState(): LocalState | undefined {
+        const parentState = this.parent.serverState
+        if (parentState === undefined) {
+            return undefined
+        }
+        const childState = this.extract(parentState)
+        if (childState !== undefined && childState !== null && this.childIdOf(childState) === this.childId) {
+            return childState
+        }
+        return this.state
+    }
+
+    get isPresent(): boolean {
+        const childState = this.extract(this.parent.state)
+        return childState !== undefined && childState !== null && this.childIdOf(childState) === this.childId
+    }
+
+    send(action: LocalAction): StoreTask {
+        if (!this.isPresent) {
+            return new StoreTask([])
+        }
+        return super.send(action)
     }
 }
@@ -0,0 +1,101 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { RootStore } from '../src/Store'
+import { Effect } from '../src/Effect'
+import { DependencyValues } from '../src/DependencyValues'
+import { TestClock, clock } from '../src/Clock'
+
+type Action = { kind: 'start' } | { kind: 'stop' } | { kind: 'tick' } | { kind: 'step', value: number }
+
+function makeStore(effects: (action: Action) => Effect<Action>) {
+    const testClock = new TestClock()
+    const log: Action[] = []
+    const store = new RootStore<{}, Action>({}, {
+        reduce(state: {}, action: Action): Effect<Action> {
+            log.push(action)
+            return effects(action)
+        }
+    }, new DependencyValues().with(clock, testClock))
+    return { store, testClock, log }
+}
+
+test('cancels effects by id', async () => {
+    const { store, testClock, log } = makeStore(action => {
+        switch (action.kind) {
+            case 'start':
+                return Effect.timer(10).map((): Action => ({ kind: 'tick' })).cancellable('timer')
+            case 'stop':
+                return Effect.cancelId('timer')
+            default:
+                return Effect.none
+        }
+    })
+    const task = store.send({ kind: 'start' })
+    await testClock.advance(25)
+    store.send({ kind: 'stop' })
+    await testClock.advance(50)
+    await task.finished
+    assert.equal(task.isCancelled, true)
+    assert.equal(log.filter(x => x.kind === 'tick').length, 2)
+})
+
+test('cancels the effects of a task', async () => {
+    const { store, testClock, log } = makeStore(action => {
+        return action.kind === 'start' ? Effect.timer(10).map((): Action => ({ kind: 'tick' })) : Effect.none
+    })
+    const task = store.send({ kind: 'start' })
+    await testClock.advance(10)
+    task.cancel()
+    await testClock.advance(50)
+    await task.finished
+    assert.equal(log.filter(x => x.kind === 'tick').length, 1)
+})
+
+test('runs concatenated effects one after another', async () => {
+    const { store, testClock, log } = makeStore(action => {
+        if (action.kind !== 'start') {
+            return Effect.none
+        }
+        const step = (value: number, delay: number) => Effect.run<Action>(async (send, context) => {
+            await context.dependencies.get(clock).sleep(delay, context.signal)
+            send({ kind: 'step', value })
+        })
+        return Effect.concatenate(step(1, 20), step(2, 10))
+    })
+    store.send({ kind: 'start' })
+    await testClock.advance(30)
+    await store.finishAll()
+    assert.deepEqual(log.slice(1), [{ kind: 'step', value: 1 }, { kind: 'step', value: 2 }])
+})
+
+test('throttles an effect value returned again', async () => {
+    let runs = 0
+    const throttled = Effect.run<Action>(async () => {
+        runs += 1
+    }).throttle('save', 100)
+    const { store, testClock } = makeStore(action => action.kind === 'start' ? throttled : Effect.none)
+    store.send({ kind: 'start' })
+    store.send({ kind: 'start' })
+    store.send({ kind: 'start' })
+    await testClock.advance(0)
+    assert.equal(runs, 1)
+    await testClock.advance(100)
+    assert.equal(runs, 2)
+})
+
+test('debounces to the last effect', async () => {
+    let runs: number[] = []
+    const { store, testClock } = makeStore(action => {
+        if (action.kind !== 'step') {
+            return Effect.none
+        }
+        return Effect.run<Action>(async () => {
+            runs.push(action.value)
+        }).debounce('search', 50)
+    })
+    store.send({ kind: 'step', value: 1 })
+    await testClock.advance(20)
+    store.send({ kind: 'step', value: 2 })
+    await testClock.advance(50)
+    assert.deepEqual(runs, [2])
+})
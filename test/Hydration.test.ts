@@ -0,0 +1,54 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { RootStore } from '../src/Store'
+import { Effect } from '../src/Effect'
+import { StackState } from '../src/StackState'
+import { IdentifiedArray } from '../src/IdentifiedArray'
+import { Shared } from '../src/Shared'
+import { serializeStore, hydrateStore, defaultSerializers, identifiedArraySerializer, sharedSerializer } from '../src/Hydration'
+
+type Item = { id: string, title: string }
+type State = {
+    updated: Date
+    path: StackState<string>
+    items: IdentifiedArray<string, Item>
+    user: Shared<string>
+}
+
+const itemId = (item: Item) => item.id
+const reducer = {
+    reduce(): Effect<string> {
+        return Effect.none
+    }
+}
+
+test('hydrates the state the server serialized', () => {
+    const serverUser = new Shared('server')
+    const path = new StackState(['a'])
+    path.push('b')
+    const server = new RootStore<State, string>({
+        updated: new Date(0),
+        path,
+        items: new IdentifiedArray(itemId, [{ id: 'x', title: 'X' }]),
+        user: serverUser
+    }, reducer)
+    const serialized = serializeStore(server, [...defaultSerializers, identifiedArraySerializer('Items', itemId), sharedSerializer({ user: serverUser })])
+    assert.ok(!serialized.includes('<'))
+
+    const clientUser = new Shared('client')
+    const client = hydrateStore<State, string>(serialized, reducer, {
+        serializers: [...defaultSerializers, identifiedArraySerializer('Items', itemId), sharedSerializer({ user: clientUser })]
+    })
+    assert.equal(client.state.updated.getTime(), 0)
+    assert.deepEqual(client.state.path.elements, ['a', 'b'])
+    assert.equal(client.state.path.push('c'), '2')
+    assert.equal(client.state.items.get('x')?.title, 'X')
+    assert.equal(client.state.user.box, clientUser.box)
+    assert.equal(clientUser.box.value, 'server')
+    assert.deepEqual(client.serverState, client.state)
+})
+
+test('refuses shared values without a serializer', () => {
+    const store = new RootStore<{ user: Shared<string> }, string>({ user: new Shared('a') }, reducer)
+    assert.throws(() => serializeStore(store), /No serializer for Shared/)
+})
@@ -0,0 +1,51 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { RootStore, TestStore } from '../src/Store'
+import { ChainReducer, EmptyReducer } from '../src/Reducer'
+import { Effect } from '../src/Effect'
+import { TestClock } from '../src/Clock'
+import { keyPath, casePath } from '../src/PropertyPath'
+import { persisted, MemoryStorage } from '../src/Persistence'
+
+type Settings = { id: string, theme: string }
+type SettingsAction = { kind: 'theme', value: string }
+type State = { settings?: Settings }
+type Action = { kind: 'settings', value: SettingsAction }
+
+function settingsReducer(storage: MemoryStorage, testClock: TestClock) {
+    const persistence = persisted(keyPath<Settings, 'theme'>('theme'), { key: 'theme', storage, throttle: 100, clock: testClock })
+    return new ChainReducer<Settings, SettingsAction>({
+        reduce(state: Settings, action: SettingsAction) {
+            state.theme = action.value
+            return Effect.none
+        }
+    }).persisted(persistence)
+}
+
+function appReducer(storage: MemoryStorage, testClock: TestClock) {
+    return new ChainReducer<State, Action>(new EmptyReducer())
+        .ifLet(keyPath<State, 'settings'>('settings'), casePath<Action, 'settings'>('settings'), x => x.id, () => settingsReducer(storage, testClock))
+}
+
+test('rehydrates present children when the store is created', () => {
+    const storage = new MemoryStorage()
+    storage.setItem('theme', JSON.stringify({ version: 0, value: 'dark' }))
+    const store = new RootStore<State, Action>({ settings: { id: 'a', theme: 'light' } }, appReducer(storage, new TestClock()))
+    assert.equal(store.state.settings?.theme, 'dark')
+})
+
+test('throttles writes with its own clock', async () => {
+    const storage = new MemoryStorage()
+    const testClock = new TestClock()
+    const store = new TestStore<State, Action>({ settings: { id: 'a', theme: 'light' } }, appReducer(storage, testClock))
+    store.send({ kind: 'settings', value: { kind: 'theme', value: 'dark' } }, state => {
+        state.settings!.theme = 'dark'
+    })
+    store.send({ kind: 'settings', value: { kind: 'theme', value: 'blue' } }, state => {
+        state.settings!.theme = 'blue'
+    })
+    await store.finish()
+    assert.equal(JSON.parse(storage.getItem('theme')!).value, 'dark')
+    await testClock.advance(100)
+    assert.equal(JSON.parse(storage.getItem('theme')!).value, 'blue')
+})
@@ -0,0 +1,63 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { RootStore } from '../src/Store'
+import { ChainReducer, CombineReducers } from '../src/Reducer'
+import { Effect } from '../src/Effect'
+import { StackState, StackAction } from '../src/StackState'
+import { keyPath, casePath } from '../src/PropertyPath'
+import { BindingReducer, BindingAction, binding } from '../src/Binding'
+import { recordActions, parseActionLog, replayActionLog } from '../src/Recorder'
+
+type Screen = { count: number }
+type ScreenAction = { kind: 'increment', value: null }
+type State = { path: StackState<Screen>, title: string }
+type Action = { kind: 'path', value: StackAction<Screen, ScreenAction> } | { kind: 'binding', value: BindingAction<State> }
+
+const screen = {
+    reduce(state: Screen): Effect<ScreenAction> {
+        state.count += 1
+        return Effect.none
+    }
+}
+
+const reducer = new ChainReducer<State, Action>(new BindingReducer<State, Action>())
+    .forEachStack(keyPath<State, 'path'>('path'), casePath<Action, 'path'>('path'), () => screen)
+
+function recordSession() {
+    const store = new RootStore<State, Action>({ path: new StackState(), title: '' }, reducer)
+    const recorder = recordActions(store)
+    store.send({ kind: 'path', value: { kind: 'push', value: { count: 0 } } })
+    store.send({ kind: 'path', value: { kind: 'element', value: { id: '0', action: { kind: 'increment', value: null } } } })
+    store.send({ kind: 'binding', value: binding(keyPath<State, 'title'>('title'), 'Hello') })
+    return recorder
+}
+
+test('replays a recorded session', () => {
+    const result = replayActionLog(reducer, recordSession().log)
+    assert.equal(result.kind, 'matched')
+})
+
+test('replays an exported session', () => {
+    const log = parseActionLog<State, Action>(recordSession().export())
+    assert.ok(log.initialState.path instanceof StackState)
+    const result = replayActionLog(reducer, log)
+    assert.equal(result.kind, 'matched')
+    assert.equal(result.state.title, 'Hello')
+})
+
+test('reports a reducer that throws as a divergence', () => {
+    const failing = new CombineReducers<State, Action>(reducer, {
+        reduce(state: State, action: Action): Effect<Action> {
+            if (action.kind === 'binding') {
+                throw new Error('Failed')
+            }
+            return Effect.none
+        }
+    })
+    const result = replayActionLog(failing, recordSession().log)
+    assert.equal(result.kind, 'diverged')
+    if (result.kind === 'diverged') {
+        assert.equal(result.index, 2)
+        assert.match(String(result.error), /Failed/)
+    }
+})
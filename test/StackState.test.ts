@@ -0,0 +1,74 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { RootStore, TestStore } from '../src/Store'
+import { ChainReducer, EmptyReducer } from '../src/Reducer'
+import { Effect } from '../src/Effect'
+import { StackState, StackAction } from '../src/StackState'
+import { keyPath, casePath } from '../src/PropertyPath'
+
+type Screen = { name: string, loaded: number }
+type ScreenAction = { kind: 'load', value: null } | { kind: 'loaded', value: null }
+type State = { path: StackState<Screen> }
+type Action = { kind: 'path', value: StackAction<Screen, ScreenAction> } | { kind: 'reset', value: null }
+
+const screen = {
+    reduce(state: Screen, action: ScreenAction): Effect<ScreenAction> {
+        if (action.kind === 'load') {
+            return Effect.run<ScreenAction>(async send => {
+                await new Promise(resolve => setTimeout(resolve, 10))
+                send({ kind: 'loaded', value: null })
+            })
+        }
+        state.loaded += 1
+        return Effect.none
+    }
+}
+
+const parent = {
+    reduce(state: State, action: Action): Effect<Action> {
+        if (action.kind === 'reset') {
+            state.path = new StackState([{ name: 'new', loaded: 0 }])
+        }
+        return Effect.none
+    }
+}
+
+const reducer = new ChainReducer<State, Action>(parent)
+    .forEachStack(keyPath<State, 'path'>('path'), casePath<Action, 'path'>('path'), () => screen)
+
+function element(id: string, action: ScreenAction): Action {
+    return { kind: 'path', value: { kind: 'element', value: { id, action } } }
+}
+
+test('gives pushed elements the same ids in the reducer and the expectation', () => {
+    const store = new TestStore<State, Action>({ path: new StackState() }, new ChainReducer<State, Action>(new EmptyReducer())
+        .forEachStack(keyPath<State, 'path'>('path'), casePath<Action, 'path'>('path'), () => screen))
+    store.send({ kind: 'path', value: { kind: 'push', value: { name: 'a', loaded: 0 } } }, state => {
+        state.path.push({ name: 'a', loaded: 0 })
+    })
+    store.send({ kind: 'path', value: { kind: 'popFrom', value: '0' } }, state => {
+        state.path.popFrom('0')
+    })
+    store.send({ kind: 'path', value: { kind: 'push', value: { name: 'b', loaded: 0 } } }, state => {
+        state.path.push({ name: 'b', loaded: 0 })
+    })
+    assert.deepEqual(store.state.path.ids, ['1'])
+})
+
+test('cancels the effects of popped elements', async () => {
+    const store = new RootStore<State, Action>({ path: new StackState([{ name: 'a', loaded: 0 }]) }, reducer)
+    const task = store.send(element('0', { kind: 'load', value: null }))
+    store.send({ kind: 'path', value: { kind: 'popFrom', value: '0' } })
+    await task.finished
+    assert.equal(task.isCancelled, true)
+    assert.equal(store.state.path.length, 0)
+})
+
+test('cancels the effects of a replaced stack even when ids repeat', async () => {
+    const store = new RootStore<State, Action>({ path: new StackState([{ name: 'old', loaded: 0 }]) }, reducer)
+    const task = store.send(element('0', { kind: 'load', value: null }))
+    store.send({ kind: 'reset', value: null })
+    await task.finished
+    await new Promise(resolve => setTimeout(resolve, 20))
+    assert.deepEqual(store.state.path.elements, [{ name: 'new', loaded: 0 }])
+})
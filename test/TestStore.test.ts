@@ -0,0 +1,66 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { TestStore } from '../src/Store'
+import { Effect } from '../src/Effect'
+import { Shared } from '../src/Shared'
+
+type State = { count: number, log: string[] }
+type Action = { kind: 'increment' } | { kind: 'load' } | { kind: 'loaded', value: string }
+
+const reducer = {
+    reduce(state: State, action: Action): Effect<Action> {
+        switch (action.kind) {
+            case 'increment':
+                state.count += 1
+                return Effect.none
+            case 'load':
+                return Effect.run<Action>(async send => {
+                    send({ kind: 'loaded', value: 'a' })
+                })
+            case 'loaded':
+                state.log.push(action.value)
+                return Effect.none
+        }
+    }
+}
+
+test('asserts the state right after each action', async () => {
+    const store = new TestStore<State, Action>({ count: 0, log: [] }, reducer)
+    store.send({ kind: 'increment' }, state => {
+        state.count = 1
+    })
+    store.send({ kind: 'load' })
+    await store.receive({ kind: 'loaded', value: 'a' }, state => {
+        state.log = ['a']
+    })
+    await store.finish()
+})
+
+test('fails on an unexpected change', () => {
+    const store = new TestStore<State, Action>({ count: 0, log: [] }, reducer)
+    assert.throws(() => store.send({ kind: 'increment' }, state => {
+        state.count = 2
+    }), /State change does not match expectation/)
+})
+
+test('fails to finish with unhandled received actions', async () => {
+    const store = new TestStore<State, Action>({ count: 0, log: [] }, reducer)
+    store.send({ kind: 'load' })
+    await assert.rejects(store.finish(), /received 1 unexpected action/)
+})
+
+test('asserts shared values without changing them', () => {
+    type SharedState = { user: Shared<string> }
+    const user = new Shared('a')
+    const store = new TestStore<SharedState, string>({ user }, {
+        reduce(state: SharedState, action: string): Effect<string> {
+            state.user.value = action
+            return Effect.none
+        }
+    })
+    store.send('b', state => {
+        state.user.value = 'b'
+    })
+    assert.throws(() => store.send('c'), /State change does not match expectation/)
+    assert.equal(user.box.value, 'a')
+})